@@ -0,0 +1,26 @@
+import type { Cookie } from 'puppeteer';
+
+// Whether a browser would send a cookie to a URL, following the cookie's domain and path scope
+export function cookieMatchesUrl(cookie: Cookie, url: string): boolean {
+    let urlObj: URL;
+    try {
+        urlObj = new URL(url);
+    } catch {
+        return false;
+    }
+    
+    // Domain cookies have a leading dot and also match subdomains; host-only cookies match exactly
+    const host = urlObj.hostname;
+    const domain = cookie.domain.replace(/^\./, '');
+    const domainMatches = cookie.domain.startsWith('.')
+        ? host === domain || host.endsWith(`.${domain}`)
+        : host === domain;
+    
+    const cookiePath = cookie.path || '/';
+    const pathMatches = urlObj.pathname === cookiePath
+        || urlObj.pathname.startsWith(cookiePath.endsWith('/') ? cookiePath : `${cookiePath}/`);
+    
+    const secureMatches = !cookie.secure || urlObj.protocol === 'https:' || host === 'localhost';
+    
+    return domainMatches && pathMatches && secureMatches;
+}
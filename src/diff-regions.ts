@@ -0,0 +1,72 @@
+export interface DiffRegion {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    pixels: number;
+}
+
+// Group changed pixels of a diff mask into bounding boxes by flood filling a coarse grid
+export function findDiffRegions(mask: Uint8Array, width: number, height: number, cellSize: number = 16): DiffRegion[] {
+    const cols = Math.ceil(width / cellSize);
+    const rows = Math.ceil(height / cellSize);
+    const cellCount = cols * rows;
+    const counts = new Int32Array(cellCount);
+    const minX = new Int32Array(cellCount).fill(width);
+    const minY = new Int32Array(cellCount).fill(height);
+    const maxX = new Int32Array(cellCount).fill(-1);
+    const maxY = new Int32Array(cellCount).fill(-1);
+    
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            // Changed pixels are the only opaque pixels in the mask
+            if (mask[(y * width + x) * 4 + 3] === 0) continue;
+            const cell = Math.floor(y / cellSize) * cols + Math.floor(x / cellSize);
+            counts[cell]++;
+            minX[cell] = Math.min(minX[cell], x);
+            minY[cell] = Math.min(minY[cell], y);
+            maxX[cell] = Math.max(maxX[cell], x);
+            maxY[cell] = Math.max(maxY[cell], y);
+        }
+    }
+    
+    const visited = new Uint8Array(cellCount);
+    const regions: DiffRegion[] = [];
+    
+    for (let start = 0; start < cellCount; start++) {
+        if (counts[start] === 0 || visited[start]) continue;
+        
+        let left = width, top = height, right = -1, bottom = -1, pixels = 0;
+        const stack = [start];
+        visited[start] = 1;
+        
+        while (stack.length > 0) {
+            const cell = stack.pop()!;
+            left = Math.min(left, minX[cell]);
+            top = Math.min(top, minY[cell]);
+            right = Math.max(right, maxX[cell]);
+            bottom = Math.max(bottom, maxY[cell]);
+            pixels += counts[cell];
+            
+            // Visit all 8 neighbouring cells
+            const col = cell % cols;
+            const row = Math.floor(cell / cols);
+            for (let dy = -1; dy <= 1; dy++) {
+                for (let dx = -1; dx <= 1; dx++) {
+                    const nextCol = col + dx;
+                    const nextRow = row + dy;
+                    if (nextCol < 0 || nextRow < 0 || nextCol >= cols || nextRow >= rows) continue;
+                    const next = nextRow * cols + nextCol;
+                    if (counts[next] > 0 && !visited[next]) {
+                        visited[next] = 1;
+                        stack.push(next);
+                    }
+                }
+            }
+        }
+        
+        regions.push({ x: left, y: top, width: right - left + 1, height: bottom - top + 1, pixels });
+    }
+    
+    return regions.sort((a, b) => b.pixels - a.pixels);
+}
@@ -0,0 +1,12 @@
+import path from 'path';
+
+// Resolve the file of a request mock against the fixtures directory. A rule comes from the
+// client, so it must not reach files outside that directory through `..` or an absolute path.
+export function resolveFixturePath(fixturesDir: string, file: string): string {
+    const filePath = path.resolve(fixturesDir, file);
+    const relative = path.relative(path.resolve(fixturesDir), filePath);
+    if (relative === '' || relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+        throw new Error(`Fixture file is outside the fixtures directory: ${file}`);
+    }
+    return filePath;
+}
@@ -0,0 +1,107 @@
+import type { PNG } from 'pngjs';
+
+export interface ScreencastFrame {
+    data: string;
+    time: number;
+}
+
+// Keep at most one frame per 1/fps seconds and time each frame until the next one, in milliseconds
+export function sampleScreencastFrames(frames: ScreencastFrame[], startTime: number, endTime: number, fps: number): { data: string; time: number; duration: number }[] {
+    const kept: ScreencastFrame[] = [];
+    for (const frame of [...frames].sort((a, b) => a.time - b.time)) {
+        const previous = kept[kept.length - 1];
+        if (previous && frame.time - previous.time < 1 / fps) {
+            // Show the newest picture for that slot
+            kept[kept.length - 1] = { data: frame.data, time: previous.time };
+        } else {
+            kept.push(frame);
+        }
+    }
+    return kept.map((frame, index) => {
+        const time = Math.max(0, frame.time - startTime);
+        const next = index + 1 < kept.length ? kept[index + 1].time - startTime : Math.max(endTime - startTime, time + 1 / fps);
+        return { data: frame.data, time: Math.round(time * 1000), duration: Math.round((next - time) * 1000) };
+    });
+}
+
+// Reduce an image to at most 256 colours by median cut over its colours at 5 bits per channel
+export function quantizeImage(image: PNG): { palette: number[]; indexed: number[] } {
+    const { data } = image;
+    const pixelCount = image.width * image.height;
+    const keys = new Uint16Array(pixelCount);
+    const counts = new Uint32Array(32768);
+    const sums = new Float64Array(32768 * 3);
+    for (let i = 0; i < pixelCount; i++) {
+        const r = data[i * 4], g = data[i * 4 + 1], b = data[i * 4 + 2];
+        const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+        keys[i] = key;
+        counts[key]++;
+        sums[key * 3] += r;
+        sums[key * 3 + 1] += g;
+        sums[key * 3 + 2] += b;
+    }
+    
+    const channelOf = (key: number, channel: number) => (key >> (10 - channel * 5)) & 31;
+    const makeBox = (boxKeys: number[]) => {
+        let channel = 0;
+        let range = 0;
+        for (let c = 0; c < 3; c++) {
+            let min = 31, max = 0;
+            for (const key of boxKeys) {
+                const value = channelOf(key, c);
+                if (value < min) min = value;
+                if (value > max) max = value;
+            }
+            if (max - min > range) {
+                channel = c;
+                range = max - min;
+            }
+        }
+        return { keys: boxKeys, channel, range };
+    };
+    
+    const used: number[] = [];
+    for (let key = 0; key < counts.length; key++) {
+        if (counts[key] > 0) used.push(key);
+    }
+    
+    // Split the box with the widest channel at its pixel-weighted median until there are 256
+    const boxes = [makeBox(used)];
+    while (boxes.length < 256) {
+        let widest = -1;
+        for (let i = 0; i < boxes.length; i++) {
+            if (boxes[i].range > 0 && (widest === -1 || boxes[i].range > boxes[widest].range)) widest = i;
+        }
+        if (widest === -1) break;
+        
+        const { keys: boxKeys, channel } = boxes[widest];
+        boxKeys.sort((a, b) => channelOf(a, channel) - channelOf(b, channel));
+        const total = boxKeys.reduce((sum, key) => sum + counts[key], 0);
+        let split = 1;
+        for (let seen = counts[boxKeys[0]]; split < boxKeys.length - 1 && seen + counts[boxKeys[split]] <= total / 2; split++) {
+            seen += counts[boxKeys[split]];
+        }
+        boxes.splice(widest, 1, makeBox(boxKeys.slice(0, split)), makeBox(boxKeys.slice(split)));
+    }
+    
+    // Each box becomes the average colour of its pixels
+    const boxOfKey = new Uint8Array(32768);
+    const palette = boxes.map((box, index) => {
+        let weight = 0, r = 0, g = 0, b = 0;
+        for (const key of box.keys) {
+            boxOfKey[key] = index;
+            weight += counts[key];
+            r += sums[key * 3];
+            g += sums[key * 3 + 1];
+            b += sums[key * 3 + 2];
+        }
+        return (Math.round(r / weight) << 16) | (Math.round(g / weight) << 8) | Math.round(b / weight);
+    });
+    const indexed = Array.from(keys, key => boxOfKey[key]);
+    
+    // GIF palettes have a power of two size, from 2 to 256 entries
+    let size = 2;
+    while (size < palette.length) size *= 2;
+    while (palette.length < size) palette.push(0);
+    return { palette, indexed };
+}
@@ -0,0 +1,120 @@
+import type { Protocol } from 'puppeteer';
+
+// A request of a network recording; each hop of a redirect is an entry of its own
+export interface NetworkEntry {
+    url: string;
+    method: string;
+    resourceType: string;
+    requestHeaders: Record<string, string>;
+    postData?: string;
+    startedDateTime: Date;
+    startTimestamp: number;
+    endTimestamp?: number;
+    status?: number;
+    statusText?: string;
+    httpVersion?: string;
+    responseHeaders?: Record<string, string>;
+    mimeType?: string;
+    timing?: Protocol.Network.ResourceTiming;
+    redirectURL?: string;
+    transferBytes: number;
+    contentBytes: number;
+    fromCache: boolean;
+    error?: string;
+}
+
+// Split the time of a request into HAR timings (milliseconds, -1 when a phase did not happen)
+function getHarTimings(entry: NetworkEntry) {
+    const total = entry.endTimestamp !== undefined ? (entry.endTimestamp - entry.startTimestamp) * 1000 : 0;
+    const timing = entry.timing;
+    if (!timing) {
+        return { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: total, receive: 0 };
+    }
+    
+    // Phases of the timing are relative to its requestTime; anything before the first phase was spent queued
+    const queued = (timing.requestTime - entry.startTimestamp) * 1000;
+    const firstPhase = [timing.dnsStart, timing.connectStart, timing.sendStart].find(value => value >= 0) ?? 0;
+    const receiveEnd = entry.endTimestamp !== undefined ? (entry.endTimestamp - timing.requestTime) * 1000 : timing.receiveHeadersEnd;
+    
+    return {
+        blocked: Math.max(0, queued + firstPhase),
+        dns: timing.dnsStart >= 0 ? timing.dnsEnd - timing.dnsStart : -1,
+        connect: timing.connectStart >= 0 ? timing.connectEnd - timing.connectStart : -1,
+        ssl: timing.sslStart >= 0 ? timing.sslEnd - timing.sslStart : -1,
+        send: Math.max(0, timing.sendEnd - timing.sendStart),
+        wait: Math.max(0, timing.receiveHeadersEnd - timing.sendEnd),
+        receive: Math.max(0, receiveEnd - timing.receiveHeadersEnd)
+    };
+}
+
+// Total time of a request, the sum of its HAR timings (ssl is already part of connect)
+export function getRequestTime(entry: NetworkEntry): number {
+    const { ssl, ...phases } = getHarTimings(entry);
+    return Object.values(phases).reduce((sum, value) => sum + Math.max(0, value), 0);
+}
+
+// Build a HAR 1.2 log of a recording
+export function buildHar(entries: NetworkEntry[], pageTitle: string) {
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+    const toNameValues = (headers: Record<string, string> = {}) =>
+        Object.entries(headers).map(([name, value]) => ({ name, value: String(value) }));
+    const startedDateTime = (entries[0]?.startedDateTime ?? new Date()).toISOString();
+    
+    return {
+        log: {
+            version: '1.2',
+            creator: { name: 'webpage-screenshot-mcp', version: '1.0.0' },
+            pages: [{
+                startedDateTime,
+                id: 'page_1',
+                title: pageTitle,
+                pageTimings: { onContentLoad: -1, onLoad: -1 }
+            }],
+            entries: entries.map(entry => {
+                const timings = getHarTimings(entry);
+                const requestUrl = new URL(entry.url);
+                return {
+                    pageref: 'page_1',
+                    startedDateTime: entry.startedDateTime.toISOString(),
+                    time: round(getRequestTime(entry)),
+                    request: {
+                        method: entry.method,
+                        url: entry.url,
+                        httpVersion: entry.httpVersion ?? '',
+                        cookies: [],
+                        headers: toNameValues(entry.requestHeaders),
+                        queryString: [...requestUrl.searchParams].map(([name, value]) => ({ name, value })),
+                        ...(entry.postData !== undefined ? {
+                            postData: {
+                                mimeType: Object.entries(entry.requestHeaders).find(([name]) => name.toLowerCase() === 'content-type')?.[1] ?? '',
+                                text: entry.postData
+                            }
+                        } : {}),
+                        headersSize: -1,
+                        bodySize: entry.postData !== undefined ? Buffer.byteLength(entry.postData) : 0
+                    },
+                    response: {
+                        status: entry.status ?? 0,
+                        statusText: entry.statusText ?? '',
+                        httpVersion: entry.httpVersion ?? '',
+                        cookies: [],
+                        headers: toNameValues(entry.responseHeaders),
+                        content: {
+                            size: entry.contentBytes,
+                            mimeType: entry.mimeType ?? 'x-unknown'
+                        },
+                        redirectURL: entry.redirectURL ?? '',
+                        headersSize: -1,
+                        bodySize: -1,
+                        _transferSize: entry.transferBytes,
+                        ...(entry.error !== undefined ? { _error: entry.error } : {})
+                    },
+                    cache: {},
+                    timings: Object.fromEntries(Object.entries(timings).map(([name, value]) => [name, round(value)])),
+                    _resourceType: entry.resourceType,
+                    _fromCache: entry.fromCache
+                };
+            })
+        }
+    };
+}
@@ -1,12 +1,26 @@
 #!/usr/bin/env node
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import axe from 'axe-core';
 import { execSync, spawn } from 'child_process';
+import crypto from 'crypto';
 import fs, { promises as fsPromises } from 'fs';
+import omggif from 'omggif';
 import os from 'os';
 import path from 'path';
-import puppeteer, { Browser, Cookie, Page } from 'puppeteer';
+import pixelmatch from 'pixelmatch';
+import { PNG } from 'pngjs';
+import WebP from 'node-webpmux';
+import puppeteer, { Browser, BrowserContext, ConsoleMessage, Cookie, ElementHandle, Frame, HTTPRequest, HTTPResponse, KeyInput, Page, PredefinedNetworkConditions, Protocol, ScreenshotOptions, SerializedAXNode, Viewport } from 'puppeteer';
 import { z } from 'zod';
+import { cookieMatchesUrl } from './cookies.js';
+import { findDiffRegions } from './diff-regions.js';
+import { resolveFixturePath } from './fixtures.js';
+import { quantizeImage, sampleScreencastFrames, ScreencastFrame } from './frames.js';
+import { buildHar, getRequestTime, NetworkEntry } from './har.js';
+import { createLoginPageTracker } from './login-page.js';
+import { captureScrollAndStitch, ScrollAndStitchOptions } from './scroll-and-stitch.js';
+import { generateTotp } from './totp.js';
 
 // Create the MCP server
 const server = new McpServer({
@@ -14,16 +28,29 @@ const server = new McpServer({
     version: "1.0.0",
 });
 
-let browser: Browser | null = null;
+const browsers = new Map<BrowserMode, Browser>();
+const browserLaunches = new Map<BrowserMode, Promise<Browser>>();
+const sessions = new Map<string, BrowserSession>();
 let persistentPage: Page | null = null;
-const cookiesDir = path.join(os.homedir(), '.mcp-screenshot-cookies');
+const profilesDir = process.env.MCP_SCREENSHOT_PROFILES_DIR || path.join(os.homedir(), '.mcp-screenshot-profiles');
+const profileKeyFile = process.env.MCP_SCREENSHOT_PROFILE_KEY_FILE || path.join(profilesDir, '.key');
+const secretsFile = process.env.MCP_SCREENSHOT_SECRETS_FILE || path.join(os.homedir(), '.mcp-screenshot-secrets.json');
+const baselinesDir = process.env.MCP_SCREENSHOT_BASELINES_DIR || path.join(os.homedir(), '.mcp-screenshot-baselines');
+const capturesDir = process.env.MCP_SCREENSHOT_OUTPUT_DIR || path.join(os.homedir(), '.mcp-screenshot-captures');
+const fixturesDir = process.env.MCP_SCREENSHOT_FIXTURES_DIR || process.cwd();
 
-// Ensure cookies directory exists
-async function ensureCookiesDir() {
+// Retention policy for captures saved to disk
+const captureRetention = {
+    maxFiles: Number(process.env.MCP_SCREENSHOT_MAX_FILES) || 200,
+    maxAgeHours: Number(process.env.MCP_SCREENSHOT_MAX_AGE_HOURS) || 168
+};
+
+// Ensure auth profiles directory exists
+async function ensureProfilesDir() {
     try {
-        await fsPromises.mkdir(cookiesDir, { recursive: true });
+        await fsPromises.mkdir(profilesDir, { recursive: true, mode: 0o700 });
     } catch (error) {
-        console.error('Error creating cookies directory:', error);
+        console.error('Error creating auth profiles directory:', error);
     }
 }
 
@@ -86,172 +113,191 @@ function getDefaultBrowserPath(): string | null {
     return null;
 }
 
-// Initialize browser instance
-async function initBrowser(headless: boolean = true, useDefaultBrowser: boolean = false): Promise<Browser> {
-    if (browser) {
-        // Check if we need to switch modes or browser type
-        const isHeadless = browser.process()?.spawnargs?.includes('--headless') ?? true;
-        const isUsingDefaultBrowser = browser.process()?.spawnargs?.includes('--remote-debugging-port') ?? false;
+// Launch a new browser instance
+async function launchBrowser(headless: boolean, useDefaultBrowser: boolean): Promise<Browser> {
+    let browser: Browser;
+    
+    if (useDefaultBrowser && !headless) {
+        // Try to connect to default browser
+        const defaultBrowserPath = getDefaultBrowserPath();
         
-        if (isHeadless !== headless || isUsingDefaultBrowser !== useDefaultBrowser) {
-            await browser.close();
-            browser = null;
-            persistentPage = null;
-        }
-    }
-    
-    if (!browser) {
-        if (useDefaultBrowser && !headless) {
-            // Try to connect to default browser
-            const defaultBrowserPath = getDefaultBrowserPath();
-            
-            if (!defaultBrowserPath) {
-                console.error('Could not find default browser. Falling back to bundled Chromium.');
-                                    browser = await puppeteer.launch({
-                        executablePath: defaultBrowserPath ?? undefined,
-                        headless: headless,
-                        args: [
-                            '--no-sandbox',
-                            '--disable-setuid-sandbox',
-                            '--disable-dev-shm-usage',
-                            '--disable-accelerated-2d-canvas',
-                            '--no-first-run',
-                            '--no-zygote',
-                            '--disable-blink-features=AutomationControlled',
-                            '--disable-features=VizDisplayCompositor',
-                            '--disable-extensions-file-access-check',
-                            '--disable-extensions-http-throttling',
-                            '--disable-extensions-https-error-pages',
-                            '--disable-extensions',
-                            '--disable-background-timer-throttling',
-                            '--disable-renderer-backgrounding',
-                            '--disable-backgrounding-occluded-windows',
-                            '--disable-ipc-flooding-protection',
-                            '--disable-default-apps',
-                            '--disable-sync',
-                            '--disable-translate',
-                            '--hide-scrollbars',
-                            '--mute-audio',
-                            '--no-default-browser-check',
-                            '--no-pings',
-                            '--disable-web-security',
-                            '--disable-features=TranslateUI',
-                            '--disable-features=BlinkGenPropertyTrees',
-                            '--disable-client-side-phishing-detection',
-                            '--disable-component-extensions-with-background-pages',
-                            '--disable-default-apps',
-                            '--disable-hang-monitor',
-                            '--disable-prompt-on-repost',
-                            headless ? '--disable-gpu' : ''
-                        ].filter(Boolean)
-                    });
-            } else {
-                // Use random debug port in allowed range (9222-9322)
-                const debuggingPort = 9222 + Math.floor(Math.random() * 100);
-                
-                // Launch browser with debugging port
-                const userDataDir = path.join(os.tmpdir(), `puppeteer_user_data_${Date.now()}`);
-                
-                // Launch browser process using spawn instead of execSync
-                const browserProcess = spawn(
-                    defaultBrowserPath,
-                    [
-                        `--remote-debugging-port=${debuggingPort}`,
-                        `--user-data-dir=${userDataDir}`,
+        if (!defaultBrowserPath) {
+            console.error('Could not find default browser. Falling back to bundled Chromium.');
+                                browser = await puppeteer.launch({
+                    executablePath: defaultBrowserPath ?? undefined,
+                    headless: headless,
+                    args: [
+                        '--no-sandbox',
+                        '--disable-setuid-sandbox',
+                        '--disable-dev-shm-usage',
+                        '--disable-accelerated-2d-canvas',
                         '--no-first-run',
-                        'about:blank'
-                    ],
-                    { stdio: 'ignore', detached: true }
-                );
-                
-                // Detach the process so it continues running after our process exits
-                browserProcess.unref();
-                
-                // Wait for browser to start
-                await new Promise(resolve => setTimeout(resolve, 1000));
-                
-                // Connect to the browser
-                try {
-                    browser = await puppeteer.connect({
-                        browserURL: `http://localhost:${debuggingPort}`,
-                        defaultViewport: null
-                    });
-                    
-                    // Store user data dir for cleanup
-                    (browser as any).__userDataDir = userDataDir;
-                } catch (error) {
-                    console.error('Failed to connect to browser:', error);
-                    // Fall back to bundled browser
-                    browser = await puppeteer.launch({
-                        executablePath: defaultBrowserPath ?? undefined,
-                        headless: headless,
-                        args: [
-                            '--no-sandbox',
-                            '--disable-setuid-sandbox',
-                            '--disable-dev-shm-usage',
-                            '--disable-accelerated-2d-canvas',
-                            '--no-first-run',
-                            '--no-zygote',
-                            '--disable-blink-features=AutomationControlled',
-                            '--disable-features=VizDisplayCompositor',
-                            '--disable-extensions',
-                            '--disable-background-timer-throttling',
-                            '--disable-renderer-backgrounding',
-                            '--disable-backgrounding-occluded-windows',
-                            '--disable-ipc-flooding-protection',
-                            '--disable-default-apps',
-                            '--disable-sync',
-                            '--disable-translate',
-                            '--hide-scrollbars',
-                            '--mute-audio',
-                            '--no-default-browser-check',
-                            '--no-pings',
-                            '--disable-web-security',
-                            '--disable-features=TranslateUI',
-                            '--disable-features=BlinkGenPropertyTrees',
-                            '--disable-client-side-phishing-detection'
-                        ].filter(Boolean)
-                    });
-                }
-            }
+                        '--no-zygote',
+                        '--disable-blink-features=AutomationControlled',
+                        '--disable-features=VizDisplayCompositor',
+                        '--disable-extensions-file-access-check',
+                        '--disable-extensions-http-throttling',
+                        '--disable-extensions-https-error-pages',
+                        '--disable-extensions',
+                        '--disable-background-timer-throttling',
+                        '--disable-renderer-backgrounding',
+                        '--disable-backgrounding-occluded-windows',
+                        '--disable-ipc-flooding-protection',
+                        '--disable-default-apps',
+                        '--disable-sync',
+                        '--disable-translate',
+                        '--hide-scrollbars',
+                        '--mute-audio',
+                        '--no-default-browser-check',
+                        '--no-pings',
+                        '--disable-web-security',
+                        '--disable-features=TranslateUI',
+                        '--disable-features=BlinkGenPropertyTrees',
+                        '--disable-client-side-phishing-detection',
+                        '--disable-component-extensions-with-background-pages',
+                        '--disable-default-apps',
+                        '--disable-hang-monitor',
+                        '--disable-prompt-on-repost',
+                        headless ? '--disable-gpu' : ''
+                    ].filter(Boolean)
+                });
         } else {
-            // Use bundled browser
-            browser = await puppeteer.launch({
-                headless: headless,
-                args: [
-                    '--no-sandbox',
-                    '--disable-setuid-sandbox',
-                    '--disable-dev-shm-usage',
-                    '--disable-accelerated-2d-canvas',
+            // Use random debug port in allowed range (9222-9322)
+            const debuggingPort = 9222 + Math.floor(Math.random() * 100);
+            
+            // Launch browser with debugging port
+            const userDataDir = path.join(os.tmpdir(), `puppeteer_user_data_${Date.now()}`);
+            
+            // Launch browser process using spawn instead of execSync
+            const browserProcess = spawn(
+                defaultBrowserPath,
+                [
+                    `--remote-debugging-port=${debuggingPort}`,
+                    `--user-data-dir=${userDataDir}`,
                     '--no-first-run',
-                    '--no-zygote',
-                    '--disable-blink-features=AutomationControlled',
-                    '--disable-features=VizDisplayCompositor',
-                    '--disable-extensions',
-                    '--disable-background-timer-throttling',
-                    '--disable-renderer-backgrounding',
-                    '--disable-backgrounding-occluded-windows',
-                    '--disable-ipc-flooding-protection',
-                    '--disable-default-apps',
-                    '--disable-sync',
-                    '--disable-translate',
-                    '--hide-scrollbars',
-                    '--mute-audio',
-                    '--no-default-browser-check',
-                    '--no-pings',
-                    '--disable-web-security',
-                    '--disable-features=TranslateUI',
-                    '--disable-features=BlinkGenPropertyTrees',
-                    '--disable-client-side-phishing-detection',
-                    headless ? '--disable-gpu' : ''
-                ].filter(Boolean)
-            });
+                    'about:blank'
+                ],
+                { stdio: 'ignore', detached: true }
+            );
+            
+            // Detach the process so it continues running after our process exits
+            browserProcess.unref();
+            
+            // Wait for browser to start
+            await new Promise(resolve => setTimeout(resolve, 1000));
+            
+            // Connect to the browser
+            try {
+                browser = await puppeteer.connect({
+                    browserURL: `http://localhost:${debuggingPort}`,
+                    defaultViewport: null
+                });
+                
+                // Store user data dir for cleanup
+                (browser as any).__userDataDir = userDataDir;
+            } catch (error) {
+                console.error('Failed to connect to browser:', error);
+                // Fall back to bundled browser
+                browser = await puppeteer.launch({
+                    executablePath: defaultBrowserPath ?? undefined,
+                    headless: headless,
+                    args: [
+                        '--no-sandbox',
+                        '--disable-setuid-sandbox',
+                        '--disable-dev-shm-usage',
+                        '--disable-accelerated-2d-canvas',
+                        '--no-first-run',
+                        '--no-zygote',
+                        '--disable-blink-features=AutomationControlled',
+                        '--disable-features=VizDisplayCompositor',
+                        '--disable-extensions',
+                        '--disable-background-timer-throttling',
+                        '--disable-renderer-backgrounding',
+                        '--disable-backgrounding-occluded-windows',
+                        '--disable-ipc-flooding-protection',
+                        '--disable-default-apps',
+                        '--disable-sync',
+                        '--disable-translate',
+                        '--hide-scrollbars',
+                        '--mute-audio',
+                        '--no-default-browser-check',
+                        '--no-pings',
+                        '--disable-web-security',
+                        '--disable-features=TranslateUI',
+                        '--disable-features=BlinkGenPropertyTrees',
+                        '--disable-client-side-phishing-detection'
+                    ].filter(Boolean)
+                });
+            }
         }
+    } else {
+        // Use bundled browser
+        browser = await puppeteer.launch({
+            headless: headless,
+            args: [
+                '--no-sandbox',
+                '--disable-setuid-sandbox',
+                '--disable-dev-shm-usage',
+                '--disable-accelerated-2d-canvas',
+                '--no-first-run',
+                '--no-zygote',
+                '--disable-blink-features=AutomationControlled',
+                '--disable-features=VizDisplayCompositor',
+                '--disable-extensions',
+                '--disable-background-timer-throttling',
+                '--disable-renderer-backgrounding',
+                '--disable-backgrounding-occluded-windows',
+                '--disable-ipc-flooding-protection',
+                '--disable-default-apps',
+                '--disable-sync',
+                '--disable-translate',
+                '--hide-scrollbars',
+                '--mute-audio',
+                '--no-default-browser-check',
+                '--no-pings',
+                '--disable-web-security',
+                '--disable-features=TranslateUI',
+                '--disable-features=BlinkGenPropertyTrees',
+                '--disable-client-side-phishing-detection',
+                headless ? '--disable-gpu' : ''
+            ].filter(Boolean)
+        });
+    }
+    return browser;
+}
+
+type BrowserMode = 'headless' | 'visible' | 'default';
+
+function getBrowserMode(headless: boolean, useDefaultBrowser: boolean): BrowserMode {
+    if (headless) {
+        return 'headless';
     }
+    return useDefaultBrowser ? 'default' : 'visible';
+}
+
+// Initialize browser instance, keeping one browser per mode so that switching modes
+// never closes a browser another caller is still using
+async function initBrowser(headless: boolean = true, useDefaultBrowser: boolean = false): Promise<Browser> {
+    const mode = getBrowserMode(headless, useDefaultBrowser);
+    const existing = browsers.get(mode);
+    if (existing && existing.connected) {
+        return existing;
+    }
+    browsers.delete(mode);
+    
+    // Share a launch that is already in progress for this mode
+    let launch = browserLaunches.get(mode);
+    if (!launch) {
+        launch = launchBrowser(headless, useDefaultBrowser).finally(() => browserLaunches.delete(mode));
+        browserLaunches.set(mode, launch);
+    }
+    
+    const browser = await launch;
+    browsers.set(mode, browser);
     return browser;
 }
 
-// Get domain from URL for cookie storage
+// Get domain from URL for file names
 function getDomainFromUrl(url: string): string {
     try {
         const urlObj = new URL(url);
@@ -261,220 +307,4652 @@ function getDomainFromUrl(url: string): string {
     }
 }
 
-// Save cookies for a domain
-async function saveCookies(url: string, cookies: Cookie[]) {
-    await ensureCookiesDir();
-    const domain = getDomainFromUrl(url);
-    const cookiesPath = path.join(cookiesDir, `${domain}.json`);
-    await fsPromises.writeFile(cookiesPath, JSON.stringify(cookies, null, 2));
+// Saved authentication state for a named profile: cookies for any domain, plus web storage per origin
+interface OriginStorage {
+    origin: string;
+    localStorage: Record<string, string>;
+    sessionStorage: Record<string, string>;
+}
+
+interface AuthProfile {
+    name: string;
+    cookies: Cookie[];
+    storage: OriginStorage[];
+    updatedAt: string | null;
+}
+
+// On-disk format of an encrypted auth profile
+interface EncryptedProfile {
+    version: 1;
+    salt: string;
+    iv: string;
+    tag: string;
+    data: string;
 }
 
-// Load cookies for a domain
-async function loadCookies(url: string): Promise<Cookie[]> {
+const authProfileNamePattern = /^[a-zA-Z0-9._-]+$/;
+
+// Read the secret that auth profiles are encrypted with: MCP_SCREENSHOT_PROFILE_KEY if set,
+// otherwise the key file, which is created with a random key on first use
+async function getProfileSecret(): Promise<Buffer> {
+    const envSecret = process.env.MCP_SCREENSHOT_PROFILE_KEY;
+    if (envSecret) {
+        return Buffer.from(envSecret, 'utf-8');
+    }
+    
+    try {
+        return Buffer.from((await fsPromises.readFile(profileKeyFile, 'utf-8')).trim(), 'base64');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            throw error;
+        }
+    }
+    
+    await fsPromises.mkdir(path.dirname(profileKeyFile), { recursive: true, mode: 0o700 });
+    const secret = crypto.randomBytes(32);
     try {
-        const domain = getDomainFromUrl(url);
-        const cookiesPath = path.join(cookiesDir, `${domain}.json`);
-        const cookiesData = await fsPromises.readFile(cookiesPath, 'utf-8');
-        return JSON.parse(cookiesData);
+        await fsPromises.writeFile(profileKeyFile, secret.toString('base64'), { mode: 0o600, flag: 'wx' });
+        return secret;
     } catch {
-        return [];
+        // Another process created the key file first
+        return Buffer.from((await fsPromises.readFile(profileKeyFile, 'utf-8')).trim(), 'base64');
     }
 }
 
-// Function to clean up resources
-async function cleanupBrowser() {
-    if (browser) {
-        // Clean up user data directory if it exists (for default browser)
-        const userDataDir = (browser as any).__userDataDir;
-        
-        try {
-            await browser.close();
-        } catch (error) {
-            console.error('Error closing browser:', error);
+async function encryptProfile(profile: AuthProfile): Promise<EncryptedProfile> {
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const key = crypto.scryptSync(await getProfileSecret(), salt, 32);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(profile), 'utf-8'), cipher.final()]);
+    
+    return {
+        version: 1,
+        salt: salt.toString('base64'),
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64')
+    };
+}
+
+async function decryptProfile(encrypted: EncryptedProfile): Promise<AuthProfile> {
+    const key = crypto.scryptSync(await getProfileSecret(), Buffer.from(encrypted.salt, 'base64'), 32);
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(encrypted.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(encrypted.tag, 'base64'));
+    const data = Buffer.concat([decipher.update(Buffer.from(encrypted.data, 'base64')), decipher.final()]);
+    return JSON.parse(data.toString('utf-8'));
+}
+
+function getAuthProfilePath(name: string): string {
+    if (!authProfileNamePattern.test(name)) {
+        throw new Error(`Invalid auth profile name: ${name}`);
+    }
+    return path.join(profilesDir, `${name}.profile`);
+}
+
+// Load an auth profile, or an empty one if it has not been saved yet
+async function loadAuthProfile(name: string): Promise<AuthProfile> {
+    let contents: string;
+    try {
+        contents = await fsPromises.readFile(getAuthProfilePath(name), 'utf-8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return { name, cookies: [], storage: [], updatedAt: null };
         }
-        
-        // Clean up user data directory if it exists
-        if (userDataDir) {
+        throw error;
+    }
+    
+    try {
+        return await decryptProfile(JSON.parse(contents));
+    } catch {
+        throw new Error(`Could not decrypt auth profile "${name}". Check MCP_SCREENSHOT_PROFILE_KEY or the key file at ${profileKeyFile}.`);
+    }
+}
+
+async function saveAuthProfile(profile: AuthProfile) {
+    await ensureProfilesDir();
+    const encrypted = await encryptProfile({ ...profile, updatedAt: new Date().toISOString() });
+    await fsPromises.writeFile(getAuthProfilePath(profile.name), JSON.stringify(encrypted), { mode: 0o600 });
+}
+
+// List the names of saved auth profiles
+async function listAuthProfiles(): Promise<string[]> {
+    try {
+        const files = await fsPromises.readdir(profilesDir);
+        return files.filter(file => file.endsWith('.profile')).map(file => file.slice(0, -'.profile'.length));
+    } catch {
+        return [];
+    }
+}
+
+function isCookieExpired(cookie: Cookie): boolean {
+    return cookie.expires > 0 && cookie.expires * 1000 < Date.now();
+}
+
+// Merge cookies, and optionally one origin's web storage, into a saved auth profile
+async function updateAuthProfile(name: string, cookies: Cookie[], storage?: OriginStorage | null): Promise<AuthProfile> {
+    const profile = await loadAuthProfile(name);
+    
+    // Newer cookies replace stored ones with the same name, domain and path
+    const cookieKey = (cookie: Cookie) => `${cookie.name}|${cookie.domain}|${cookie.path}`;
+    const merged = new Map(profile.cookies.map(cookie => [cookieKey(cookie), cookie]));
+    for (const cookie of cookies) {
+        merged.set(cookieKey(cookie), cookie);
+    }
+    profile.cookies = [...merged.values()].filter(cookie => !isCookieExpired(cookie));
+    
+    if (storage) {
+        profile.storage = [...profile.storage.filter(item => item.origin !== storage.origin), storage];
+    }
+    
+    await saveAuthProfile(profile);
+    return profile;
+}
+
+// Read the localStorage and sessionStorage of the page's current origin
+async function readPageStorage(page: Page): Promise<OriginStorage | null> {
+    try {
+        const storage = await page.evaluate(() => {
+            const read = (store: Storage) => {
+                const items: Record<string, string> = {};
+                for (let i = 0; i < store.length; i++) {
+                    const key = store.key(i);
+                    if (key !== null) {
+                        items[key] = store.getItem(key) ?? '';
+                    }
+                }
+                return items;
+            };
+            return { origin: location.origin, localStorage: read(localStorage), sessionStorage: read(sessionStorage) };
+        });
+        return storage.origin === 'null' ? null : storage;
+    } catch {
+        return null;
+    }
+}
+
+// The storage restore script added to each page, so applying a profile again replaces the old one
+const pageAuthScripts = new WeakMap<Page, { identifier: string }>();
+
+// Apply an auth profile to a page before navigation and return how many cookies are in scope for the URL.
+// All cookies are set so the browser applies their scope, e.g. SSO cookies from a sibling subdomain.
+async function applyAuthProfile(page: Page, name: string, url: string): Promise<number> {
+    const profile = await loadAuthProfile(name);
+    const cookies = profile.cookies.filter(cookie => !isCookieExpired(cookie));
+    if (cookies.length > 0) {
+        await page.setCookie(...cookies);
+    }
+    
+    const previous = pageAuthScripts.get(page);
+    if (previous) {
+        pageAuthScripts.delete(page);
+        await page.removeScriptToEvaluateOnNewDocument(previous.identifier).catch(() => {});
+    }
+    
+    if (profile.storage.length > 0) {
+        // Restore stored keys the page does not already have on every document of a matching origin
+        const script = await page.evaluateOnNewDocument((storage: OriginStorage[]) => {
+            const entry = storage.find(item => item.origin === location.origin);
+            if (!entry) return;
             try {
-                await fsPromises.rm(userDataDir, { recursive: true, force: true });
-            } catch (error) {
-                console.error('Error cleaning up user data directory:', error);
+                for (const [key, value] of Object.entries(entry.localStorage)) {
+                    if (localStorage.getItem(key) === null) localStorage.setItem(key, value);
+                }
+                for (const [key, value] of Object.entries(entry.sessionStorage)) {
+                    if (sessionStorage.getItem(key) === null) sessionStorage.setItem(key, value);
+                }
+            } catch (e) {
+                // Storage can be unavailable, e.g. in sandboxed frames
             }
-        }
-        
-        browser = null;
-        persistentPage = null;
+        }, profile.storage);
+        pageAuthScripts.set(page, script);
     }
+    
+    return cookies.filter(cookie => cookieMatchesUrl(cookie, url)).length;
 }
 
-// Cleanup browser on exit
-process.on('exit', () => {
-    if (browser) {
-        // Can't use async here, so just do a sync cleanup of what we can
-        try {
-            browser.close().catch(() => {});
-        } catch (e) {
-            // Ignore errors on exit
+// Reference to a credential kept outside the tool call: an environment variable or a key in the secrets file
+const secretRefSchema = z.union([
+    z.object({ env: z.string().describe("Name of the environment variable holding the value") }),
+    z.object({ secret: z.string().describe("Key of the value in the local secrets file") })
+]);
+
+type SecretRef = z.infer<typeof secretRefSchema>;
+
+function describeSecretRef(ref: SecretRef): string {
+    return 'env' in ref ? `environment variable ${ref.env}` : `secrets file key ${ref.secret}`;
+}
+
+// Resolve a secret reference to its value; errors name the reference but never include a value
+async function resolveSecret(ref: SecretRef): Promise<string> {
+    if ('env' in ref) {
+        const value = process.env[ref.env];
+        if (value === undefined || value === '') {
+            throw new Error(`Environment variable ${ref.env} is not set`);
         }
+        return value;
     }
-});
+    
+    let secrets: Record<string, unknown>;
+    try {
+        secrets = JSON.parse(await fsPromises.readFile(secretsFile, 'utf-8'));
+    } catch {
+        throw new Error(`Could not read secrets file ${secretsFile}`);
+    }
+    const value = secrets[ref.secret];
+    if (typeof value !== 'string' || value === '') {
+        throw new Error(`Secrets file ${secretsFile} has no string value for key ${ref.secret}`);
+    }
+    return value;
+}
 
-process.on('SIGINT', async () => {
-    await cleanupBrowser();
-    process.exit(0);
-});
+// Interaction steps that can run after navigation and before capture
+const actionTimeout = z.number().optional().describe("Maximum milliseconds to wait for this step (default: 10000)");
+const actionSchema = z.discriminatedUnion('type', [
+    z.object({
+        type: z.literal('click'),
+        selector: z.string().describe("CSS selector of the element to click"),
+        button: z.enum(['left', 'right', 'middle']).optional().describe("Mouse button to use (default: left)"),
+        clickCount: z.number().int().min(1).optional().describe("Number of clicks (default: 1)"),
+        timeout: actionTimeout
+    }),
+    z.object({
+        type: z.literal('type'),
+        selector: z.string().describe("CSS selector of the input to type into"),
+        text: z.string().describe("Text to type"),
+        clear: z.boolean().optional().describe("Whether to clear the current value first (default: true)"),
+        delay: z.number().optional().describe("Delay in milliseconds between key presses"),
+        timeout: actionTimeout
+    }),
+    z.object({
+        type: z.literal('press'),
+        key: z.string().describe("Key to press, e.g. Enter, Escape, ArrowDown"),
+        selector: z.string().optional().describe("Optional CSS selector of the element to focus first"),
+        timeout: actionTimeout
+    }),
+    z.object({
+        type: z.literal('hover'),
+        selector: z.string().describe("CSS selector of the element to hover"),
+        timeout: actionTimeout
+    }),
+    z.object({
+        type: z.literal('scroll-to'),
+        selector: z.string().optional().describe("CSS selector of the element to scroll into view"),
+        x: z.number().optional().describe("Horizontal window scroll position, used when no selector is given"),
+        y: z.number().optional().describe("Vertical window scroll position, used when no selector is given"),
+        timeout: actionTimeout
+    }),
+    z.object({
+        type: z.literal('select-option'),
+        selector: z.string().describe("CSS selector of the <select> element"),
+        values: z.array(z.string()).min(1).describe("Option values to select"),
+        timeout: actionTimeout
+    }),
+    z.object({
+        type: z.literal('wait-for-selector'),
+        selector: z.string().describe("CSS selector to wait for"),
+        state: z.enum(['attached', 'visible', 'hidden']).optional().describe("State to wait for (default: visible)"),
+        timeout: actionTimeout
+    }),
+    z.object({
+        type: z.literal('wait-for-network-idle'),
+        idleTime: z.number().optional().describe("Milliseconds without network activity to consider the network idle (default: 500)"),
+        timeout: actionTimeout
+    })
+]);
 
-process.on('SIGTERM', async () => {
-    await cleanupBrowser();
-    process.exit(0);
-});
+type Action = z.infer<typeof actionSchema>;
 
-// Register the login-and-wait tool
-server.tool(
-    "login-and-wait",
-    "Opens a webpage in a visible browser window for manual login, waits for user to complete login, then saves cookies",
-    {
-        url: z.string().url().describe("The URL of the login page"),
-        waitMinutes: z.number().optional().default(3).describe("Maximum minutes to wait for login (default: 3)"),
-        successIndicator: z.string().optional().describe("Optional CSS selector or URL pattern that indicates successful login"),
-        useDefaultBrowser: z.boolean().optional().default(true).describe("Whether to use the system's default browser instead of Puppeteer's bundled Chromium")
-    },
-    async ({ url, waitMinutes, successIndicator, useDefaultBrowser }) => {
-        let page: Page | null = null;
-        
-        try {
-            // Initialize browser in non-headless mode with default browser option
-            const browserInstance = await initBrowser(false, useDefaultBrowser);
-            
-            // Create or reuse persistent page
-            if (!persistentPage || persistentPage.isClosed()) {
-                persistentPage = await browserInstance.newPage();
+interface ActionResult {
+    description: string;
+    status: 'ok' | 'failed' | 'skipped';
+    durationMs: number;
+    error?: string;
+}
+
+// Short human readable description of an action step
+function describeAction(action: Action): string {
+    switch (action.type) {
+        case 'click':
+            return `click ${action.selector}`;
+        case 'type':
+            return `type into ${action.selector}`;
+        case 'press':
+            return action.selector ? `press ${action.key} on ${action.selector}` : `press ${action.key}`;
+        case 'hover':
+            return `hover ${action.selector}`;
+        case 'scroll-to':
+            return action.selector ? `scroll to ${action.selector}` : `scroll to (${action.x ?? 0}, ${action.y ?? 0})`;
+        case 'select-option':
+            return `select ${action.values.join(', ')} in ${action.selector}`;
+        case 'wait-for-selector':
+            return `wait for ${action.selector} to be ${action.state ?? 'visible'}`;
+        case 'wait-for-network-idle':
+            return 'wait for network idle';
+    }
+}
+
+// Run a single action step against a page
+async function runAction(page: Page, action: Action) {
+    const timeout = action.timeout ?? 10000;
+    
+    switch (action.type) {
+        case 'click':
+            await page.waitForSelector(action.selector, { visible: true, timeout });
+            await page.click(action.selector, { button: action.button, count: action.clickCount });
+            break;
+        case 'type':
+            await page.waitForSelector(action.selector, { visible: true, timeout });
+            if (action.clear ?? true) {
+                await page.$eval(action.selector, (el) => {
+                    (el as HTMLInputElement).value = '';
+                    el.dispatchEvent(new Event('input', { bubbles: true }));
+                });
             }
-            page = persistentPage;
-            
-            // Load existing cookies if available
-            const existingCookies = await loadCookies(url);
-            if (existingCookies.length > 0) {
-                await page.setCookie(...existingCookies);
+            await page.type(action.selector, action.text, { delay: action.delay });
+            break;
+        case 'press':
+            if (action.selector) {
+                await page.waitForSelector(action.selector, { timeout });
+                await page.focus(action.selector);
             }
-            
-            // Set user agent and anti-detection measures for login
-            await page.setUserAgent('Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36');
-            
-            // Additional anti-detection measures for Google login
-            await page.evaluateOnNewDocument(() => {
-                // Remove webdriver property
-                delete (window.navigator as any).webdriver;
-                
-                // Override the plugins property to add fake plugins
-                Object.defineProperty(window.navigator, 'plugins', {
-                    get: () => [1, 2, 3, 4, 5]
-                });
-                
-                // Override the languages property
-                Object.defineProperty(window.navigator, 'languages', {
-                    get: () => ['en-US', 'en']
-                });
-                
-                // Override permissions
-                Object.defineProperty(window.navigator, 'permissions', {
-                    get: () => ({
-                        query: () => Promise.resolve({ state: 'granted' })
-                    })
-                });
+            await page.keyboard.press(action.key as KeyInput);
+            break;
+        case 'hover':
+            await page.waitForSelector(action.selector, { visible: true, timeout });
+            await page.hover(action.selector);
+            break;
+        case 'scroll-to':
+            if (action.selector) {
+                const element = await page.waitForSelector(action.selector, { timeout });
+                await element!.evaluate((el) => el.scrollIntoView({ block: 'center', inline: 'center' }));
+            } else {
+                await page.evaluate((x, y) => window.scrollTo(x, y), action.x ?? 0, action.y ?? 0);
+            }
+            break;
+        case 'select-option': {
+            await page.waitForSelector(action.selector, { timeout });
+            const selected = await page.select(action.selector, ...action.values);
+            if (selected.length === 0) {
+                throw new Error(`No option matched values: ${action.values.join(', ')}`);
+            }
+            break;
+        }
+        case 'wait-for-selector': {
+            const state = action.state ?? 'visible';
+            await page.waitForSelector(action.selector, {
+                visible: state === 'visible',
+                hidden: state === 'hidden',
+                timeout
             });
-            
-            // Navigate to the URL
-            await page.goto(url, {
-                waitUntil: 'networkidle2',
-                timeout: 30000
+            break;
+        }
+        case 'wait-for-network-idle':
+            await page.waitForNetworkIdle({ idleTime: action.idleTime ?? 500, timeout });
+            break;
+    }
+}
+
+// Run action steps in order, stopping at the first failure and skipping the rest
+async function runActions(page: Page, actions: Action[]): Promise<ActionResult[]> {
+    const results: ActionResult[] = [];
+    let failed = false;
+    
+    for (const action of actions) {
+        const description = describeAction(action);
+        if (failed) {
+            results.push({ description, status: 'skipped', durationMs: 0 });
+            continue;
+        }
+        
+        const startTime = Date.now();
+        try {
+            await runAction(page, action);
+            results.push({ description, status: 'ok', durationMs: Date.now() - startTime });
+        } catch (error) {
+            failed = true;
+            results.push({
+                description,
+                status: 'failed',
+                durationMs: Date.now() - startTime,
+                error: error instanceof Error ? error.message : String(error)
             });
+        }
+    }
+    
+    return results;
+}
+
+// Format action results for the tool response text
+function formatActionResults(results: ActionResult[]): string {
+    if (results.length === 0) {
+        return '';
+    }
+    const lines = results.map((result, index) => {
+        const detail = result.status === 'skipped' ? '' : ` (${result.durationMs}ms)`;
+        const error = result.error ? `: ${result.error}` : '';
+        return `  ${index + 1}. [${result.status}] ${result.description}${detail}${error}`;
+    });
+    return `\n\nActions:\n${lines.join('\n')}`;
+}
+
+// Stealth profiles: how much of the automated browser's fingerprint is hidden from sites
+const stealthProfiles = ['none', 'basic', 'full'] as const;
+type StealthProfile = typeof stealthProfiles[number];
+
+const stealthProfileSchema = z.enum(stealthProfiles).describe("Anti-detection profile: none (the browser's own fingerprint), basic (a user agent and client hints for the real browser version without the headless token, navigator.webdriver false) or full (basic plus a matching navigator.platform, WebGL vendor and renderer, and PDF viewer plugin objects)");
+
+const userAgentSchema = z.string().min(1).describe("Custom user agent, in place of a device profile's or the one the stealth profile builds; the client hints and platform are made to match it");
+
+// Platform details that must agree across the user agent, client hints, navigator and WebGL
+interface PlatformFingerprint {
+    userAgentPlatform: string;
+    clientHintsPlatform: string;
+    platformVersion: string;
+    navigatorPlatform: string;
+    webglVendor: string;
+    webglRenderer: string;
+    mobile: boolean;
+}
+
+const platformFingerprints: Record<'mac' | 'windows' | 'linux' | 'android' | 'ios', PlatformFingerprint> = {
+    mac: {
+        userAgentPlatform: 'Macintosh; Intel Mac OS X 10_15_7',
+        clientHintsPlatform: 'macOS',
+        platformVersion: '14.5.0',
+        navigatorPlatform: 'MacIntel',
+        webglVendor: 'Google Inc. (Apple)',
+        webglRenderer: 'ANGLE (Apple, ANGLE Metal Renderer: Apple M1, Unspecified Version)',
+        mobile: false
+    },
+    windows: {
+        userAgentPlatform: 'Windows NT 10.0; Win64; x64',
+        clientHintsPlatform: 'Windows',
+        platformVersion: '15.0.0',
+        navigatorPlatform: 'Win32',
+        webglVendor: 'Google Inc. (Intel)',
+        webglRenderer: 'ANGLE (Intel, Intel(R) UHD Graphics 630 (0x00003E92) Direct3D11 vs_5_0 ps_5_0, D3D11)',
+        mobile: false
+    },
+    linux: {
+        userAgentPlatform: 'X11; Linux x86_64',
+        clientHintsPlatform: 'Linux',
+        platformVersion: '6.5.0',
+        navigatorPlatform: 'Linux x86_64',
+        webglVendor: 'Google Inc. (Intel)',
+        webglRenderer: 'ANGLE (Intel, Mesa Intel(R) UHD Graphics 630 (CFL GT2), OpenGL 4.6)',
+        mobile: false
+    },
+    android: {
+        userAgentPlatform: 'Linux; Android 10; K',
+        clientHintsPlatform: 'Android',
+        platformVersion: '14.0.0',
+        navigatorPlatform: 'Linux armv81',
+        webglVendor: 'Qualcomm',
+        webglRenderer: 'Adreno (TM) 740',
+        mobile: true
+    },
+    ios: {
+        userAgentPlatform: 'iPhone; CPU iPhone OS 17_0 like Mac OS X',
+        clientHintsPlatform: 'iOS',
+        platformVersion: '17.0.0',
+        navigatorPlatform: 'iPhone',
+        webglVendor: 'Apple Inc.',
+        webglRenderer: 'Apple GPU',
+        mobile: true
+    }
+};
+
+function getHostPlatform(): PlatformFingerprint {
+    if (process.platform === 'darwin') return platformFingerprints.mac;
+    if (process.platform === 'win32') return platformFingerprints.windows;
+    return platformFingerprints.linux;
+}
+
+// The platform a custom user agent claims, so the rest of the fingerprint can agree with it
+function getUserAgentPlatform(userAgent: string): PlatformFingerprint {
+    if (/iPad/.test(userAgent)) return { ...platformFingerprints.ios, navigatorPlatform: 'iPad' };
+    if (/iPhone|iPod/.test(userAgent)) return platformFingerprints.ios;
+    if (/Android/.test(userAgent)) return platformFingerprints.android;
+    if (/Windows/.test(userAgent)) return platformFingerprints.windows;
+    if (/Macintosh|Mac OS X/.test(userAgent)) return platformFingerprints.mac;
+    return platformFingerprints.linux;
+}
+
+// Client hints (Sec-CH-UA headers and navigator.userAgentData) for a Chrome user agent.
+// Other browsers send none, so there is nothing to match for them.
+function getClientHints(userAgent: string, browserVersion: string, platform: PlatformFingerprint): Protocol.Emulation.UserAgentMetadata | undefined {
+    const major = userAgent.match(/Chrome\/(\d+)/)?.[1];
+    if (!major) {
+        return undefined;
+    }
+    const fullVersion = browserVersion.startsWith(`${major}.`) ? browserVersion : `${major}.0.0.0`;
+    const mobile = /Mobile/.test(userAgent);
+    return {
+        brands: [
+            { brand: 'Google Chrome', version: major },
+            { brand: 'Chromium', version: major },
+            { brand: 'Not)A;Brand', version: '99' }
+        ],
+        fullVersionList: [
+            { brand: 'Google Chrome', version: fullVersion },
+            { brand: 'Chromium', version: fullVersion },
+            { brand: 'Not)A;Brand', version: '99.0.0.0' }
+        ],
+        fullVersion,
+        platform: platform.clientHintsPlatform,
+        platformVersion: platform.platformVersion,
+        architecture: mobile ? '' : platform === getHostPlatform() && process.arch === 'arm64' ? 'arm' : 'x86',
+        model: '',
+        mobile,
+        bitness: mobile ? '' : '64',
+        wow64: false
+    };
+}
+
+interface PageFingerprint {
+    full: boolean;
+    navigatorPlatform: string;
+    webglVendor: string;
+    webglRenderer: string;
+    hideUserAgentData: boolean;
+    pdfPlugins: boolean;
+}
+
+// Runs in the page before its own scripts: hide automation and, for the full profile,
+// report the platform, GPU and plugins of a regular browser
+function applyPageFingerprint(fingerprint: PageFingerprint) {
+    Object.defineProperty(Navigator.prototype, 'webdriver', { get: () => false, configurable: true });
+    // Browsers other than Chrome have no userAgentData, so a Safari or Firefox user agent must not either
+    if (fingerprint.hideUserAgentData) {
+        Object.defineProperty(Navigator.prototype, 'userAgentData', { get: () => undefined, configurable: true });
+    }
+    if (!fingerprint.full) {
+        return;
+    }
+    
+    Object.defineProperty(Navigator.prototype, 'platform', { get: () => fingerprint.navigatorPlatform, configurable: true });
+    
+    // WEBGL_debug_renderer_info's UNMASKED_VENDOR_WEBGL and UNMASKED_RENDERER_WEBGL
+    for (const context of [window.WebGLRenderingContext, window.WebGL2RenderingContext]) {
+        if (!context) continue;
+        const getParameter = context.prototype.getParameter;
+        context.prototype.getParameter = function (this: WebGLRenderingContext, parameter: number) {
+            if (parameter === 0x9245) return fingerprint.webglVendor;
+            if (parameter === 0x9246) return fingerprint.webglRenderer;
+            return getParameter.call(this, parameter);
+        };
+    }
+    
+    // Desktop Chrome lists its PDF viewer under five plugin names; build them on the native
+    // prototypes so instanceof, item(), namedItem() and iteration behave as usual
+    if (!fingerprint.pdfPlugins || navigator.plugins.length > 0) {
+        return;
+    }
+    const createList = (prototype: object, items: object[], names: string[]) => {
+        const list = Object.create(prototype);
+        items.forEach((item, index) => {
+            Object.defineProperty(list, index, { value: item, enumerable: true });
+            Object.defineProperty(list, names[index], { value: item });
+        });
+        Object.defineProperties(list, {
+            length: { get: () => items.length },
+            item: { value: (index: number) => items[index] ?? null },
+            namedItem: { value: (name: string) => items[names.indexOf(name)] ?? null },
+            [Symbol.iterator]: { value: () => items[Symbol.iterator]() }
+        });
+        return list;
+    };
+    const mimeTypeNames = ['application/pdf', 'text/pdf'];
+    const mimeTypes = mimeTypeNames.map(type => Object.create(MimeType.prototype, {
+        type: { value: type },
+        suffixes: { value: 'pdf' },
+        description: { value: 'Portable Document Format' }
+    }));
+    const pluginNames = ['PDF Viewer', 'Chrome PDF Viewer', 'Chromium PDF Viewer', 'Microsoft Edge PDF Viewer', 'WebKit built-in PDF'];
+    const plugins = pluginNames.map(name => Object.defineProperties(createList(Plugin.prototype, mimeTypes, mimeTypeNames), {
+        name: { value: name },
+        filename: { value: 'internal-pdf-viewer' },
+        description: { value: 'Portable Document Format' }
+    }));
+    for (const mimeType of mimeTypes) {
+        Object.defineProperty(mimeType, 'enabledPlugin', { value: plugins[0] });
+    }
+    const pluginArray = createList(PluginArray.prototype, plugins, pluginNames);
+    const mimeTypeArray = createList(MimeTypeArray.prototype, mimeTypes, mimeTypeNames);
+    Object.defineProperty(Navigator.prototype, 'plugins', { get: () => pluginArray, configurable: true });
+    Object.defineProperty(Navigator.prototype, 'mimeTypes', { get: () => mimeTypeArray, configurable: true });
+    Object.defineProperty(Navigator.prototype, 'pdfViewerEnabled', { get: () => true, configurable: true });
+}
+
+// The fingerprint script added to each page, so setting a page up again replaces it
+const pageFingerprintScripts = new WeakMap<Page, { identifier: string }>();
+
+// Apply a stealth profile before the page navigates. The user agent is the custom one if given,
+// otherwise one built for the real browser version on the host's platform.
+async function applyStealthProfile(page: Page, stealth: StealthProfile, customUserAgent?: string) {
+    const previous = pageFingerprintScripts.get(page);
+    if (previous) {
+        pageFingerprintScripts.delete(page);
+        await page.removeScriptToEvaluateOnNewDocument(previous.identifier).catch(() => {});
+    }
+    
+    const browserVersion = (await page.browser().version()).match(/\/([\d.]+)/)?.[1] ?? '0.0.0.0';
+    if (stealth === 'none') {
+        // No page scripts, but the client hints of a custom Chrome user agent still follow it
+        if (customUserAgent) {
+            await page.setUserAgent(customUserAgent, getClientHints(customUserAgent, browserVersion, getUserAgentPlatform(customUserAgent)));
+        } else if (previous) {
+            await page.setUserAgent(await page.browser().userAgent());
+        }
+        return;
+    }
+    
+    const platform = customUserAgent ? getUserAgentPlatform(customUserAgent) : getHostPlatform();
+    const userAgent = customUserAgent ?? `Mozilla/5.0 (${platform.userAgentPlatform}) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/${browserVersion.split('.')[0]}.0.0.0 Safari/537.36`;
+    const clientHints = getClientHints(userAgent, browserVersion, platform);
+    await page.setUserAgent(userAgent, clientHints);
+    
+    const script = await page.evaluateOnNewDocument(applyPageFingerprint, {
+        full: stealth === 'full',
+        navigatorPlatform: platform.navigatorPlatform,
+        webglVendor: platform.webglVendor,
+        webglRenderer: platform.webglRenderer,
+        hideUserAgentData: !clientHints,
+        pdfPlugins: !platform.mobile
+    });
+    pageFingerprintScripts.set(page, script);
+}
+
+interface PageSetupOptions {
+    url: string;
+    stealth: StealthProfile;
+    userAgent?: string;
+    authProfile?: string;
+    viewport?: Viewport;
+}
+
+// Prepare a new or reopened page before it navigates: saved auth, viewport, then the stealth profile
+async function setupPage(page: Page, options: PageSetupOptions) {
+    const { url, stealth, userAgent, authProfile, viewport } = options;
+    if (authProfile) {
+        await applyAuthProfile(page, authProfile, url);
+    }
+    if (viewport) {
+        await page.setViewport(viewport);
+    }
+    await applyStealthProfile(page, stealth, userAgent);
+}
+
+// Echo the stealth profile a capture was taken with
+function describeStealth(stealth: StealthProfile, userAgent: string | undefined): string {
+    return `\nStealth profile: ${stealth}${userAgent ? `\nUser agent: ${userAgent}` : ''}`;
+}
+
+// Device profiles for viewport and device emulation
+interface DeviceProfile extends Viewport {
+    name: string;
+    userAgent?: string;
+}
+
+const builtInDeviceProfiles: Record<'mobile' | 'tablet' | 'desktop', DeviceProfile> = {
+    mobile: {
+        name: 'mobile',
+        width: 390,
+        height: 844,
+        deviceScaleFactor: 3,
+        isMobile: true,
+        hasTouch: true,
+        userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'
+    },
+    tablet: {
+        name: 'tablet',
+        width: 820,
+        height: 1180,
+        deviceScaleFactor: 2,
+        isMobile: true,
+        hasTouch: true,
+        userAgent: 'Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'
+    },
+    desktop: {
+        name: 'desktop',
+        width: 1920,
+        height: 1080,
+        deviceScaleFactor: 1,
+        isMobile: false,
+        hasTouch: false
+    }
+};
+
+const deviceProfileSchema = z.union([
+    z.enum(['mobile', 'tablet', 'desktop']).describe("Built-in device profile"),
+    z.object({
+        name: z.string().describe("Label for this profile"),
+        width: z.number().int().min(1).describe("Viewport width in CSS pixels"),
+        height: z.number().int().min(1).describe("Viewport height in CSS pixels"),
+        deviceScaleFactor: z.number().min(0.1).optional().describe("Device pixel ratio (default: 1)"),
+        isMobile: z.boolean().optional().describe("Whether to emulate a mobile device (meta viewport support)"),
+        hasTouch: z.boolean().optional().describe("Whether the device supports touch events"),
+        isLandscape: z.boolean().optional().describe("Whether the device is in landscape orientation"),
+        userAgent: z.string().optional().describe("User agent to use for this profile")
+    })
+]);
+
+type DeviceProfileInput = z.infer<typeof deviceProfileSchema>;
+
+// Resolve a built-in profile name or custom profile to a full device profile
+function resolveDeviceProfile(profile: DeviceProfileInput): DeviceProfile {
+    return typeof profile === 'string' ? builtInDeviceProfiles[profile] : profile;
+}
+
+// Short description of a device profile for the response text
+function describeDeviceProfile(profile: DeviceProfile): string {
+    const traits = [`${profile.width}x${profile.height}`, `@${profile.deviceScaleFactor ?? 1}x`];
+    if (profile.isMobile) traits.push('mobile');
+    if (profile.hasTouch) traits.push('touch');
+    if (profile.isLandscape) traits.push('landscape');
+    return `${profile.name} (${traits.join(', ')})`;
+}
+
+// Named browser session with its own browser context, cookies, viewport and persistent page
+interface BrowserSession {
+    id: string;
+    mode: BrowserMode;
+    context: BrowserContext;
+    viewport?: DeviceProfile;
+    persistentPage: Page | null;
+    createdAt: Date;
+}
+
+// Look up an open session, dropping it if its browser has gone away
+function getSession(sessionId: string): BrowserSession {
+    const session = sessions.get(sessionId);
+    if (!session) {
+        throw new Error(`Unknown session: ${sessionId}. Use open-session to create it or list-sessions to see open sessions.`);
+    }
+    if (session.context.closed || !session.context.browser().connected) {
+        sessions.delete(sessionId);
+        throw new Error(`Session ${sessionId} was closed because its browser is no longer running`);
+    }
+    return session;
+}
+
+// Whether a page is kept open between tool calls (the default or a session's persistent page)
+function isPersistentPage(page: Page): boolean {
+    if (page === persistentPage) {
+        return true;
+    }
+    for (const session of sessions.values()) {
+        if (session.persistentPage === page) {
+            return true;
+        }
+    }
+    return false;
+}
+
+// Describe the browser a capture ran in for the response text
+function describeCaptureBrowser(useDefaultBrowser: boolean, visibleBrowser: boolean, sessionId?: string): string {
+    if (sessionId) {
+        const session = sessions.get(sessionId);
+        return `session ${sessionId}${session ? ` (${session.mode})` : ''}`;
+    }
+    const browserType = useDefaultBrowser && visibleBrowser ? 'default browser' : 'Puppeteer browser';
+    const browserMode = visibleBrowser ? 'visible' : 'headless';
+    return `${browserType} (${browserMode})`;
+}
+
+// Network activity of a capture page, recorded over the DevTools protocol
+interface NetworkRecording {
+    entries: NetworkEntry[];
+    stop: () => Promise<void>;
+}
+
+// Record every request of a page, including redirects, failures and cached responses
+async function startNetworkRecording(page: Page): Promise<NetworkRecording> {
+    const client = await page.createCDPSession();
+    const entries: NetworkEntry[] = [];
+    const inFlight = new Map<string, NetworkEntry>();
+    
+    const applyResponse = (entry: NetworkEntry, response: Protocol.Network.Response) => {
+        entry.status = response.status;
+        entry.statusText = response.statusText;
+        entry.httpVersion = response.protocol;
+        entry.responseHeaders = response.headers;
+        entry.mimeType = response.mimeType;
+        entry.timing = response.timing;
+        entry.transferBytes = response.encodedDataLength;
+        entry.fromCache = !!(response.fromDiskCache || response.fromPrefetchCache || response.fromServiceWorker);
+    };
+    
+    client.on('Network.requestWillBeSent', event => {
+        // A redirect reuses the request ID, so finish the previous hop first
+        const previous = inFlight.get(event.requestId);
+        if (previous && event.redirectResponse) {
+            applyResponse(previous, event.redirectResponse);
+            previous.redirectURL = event.request.url;
+            previous.endTimestamp = event.timestamp;
+        }
+        
+        const entry: NetworkEntry = {
+            url: event.request.url,
+            method: event.request.method,
+            resourceType: (event.type ?? 'Other').toLowerCase(),
+            requestHeaders: event.request.headers,
+            postData: event.request.postData,
+            startedDateTime: new Date(event.wallTime * 1000),
+            startTimestamp: event.timestamp,
+            transferBytes: 0,
+            contentBytes: 0,
+            fromCache: false
+        };
+        entries.push(entry);
+        inFlight.set(event.requestId, entry);
+    });
+    client.on('Network.responseReceived', event => {
+        const entry = inFlight.get(event.requestId);
+        if (entry) {
+            applyResponse(entry, event.response);
+        }
+    });
+    client.on('Network.dataReceived', event => {
+        const entry = inFlight.get(event.requestId);
+        if (entry) {
+            entry.contentBytes += event.dataLength;
+        }
+    });
+    client.on('Network.loadingFinished', event => {
+        const entry = inFlight.get(event.requestId);
+        if (entry) {
+            entry.endTimestamp = event.timestamp;
+            entry.transferBytes = event.encodedDataLength;
+            inFlight.delete(event.requestId);
+        }
+    });
+    client.on('Network.loadingFailed', event => {
+        const entry = inFlight.get(event.requestId);
+        if (entry) {
+            entry.endTimestamp = event.timestamp;
+            entry.error = event.canceled ? 'canceled' : event.blockedReason ? `${event.errorText} (${event.blockedReason})` : event.errorText;
+            inFlight.delete(event.requestId);
+        }
+    });
+    
+    await client.send('Network.enable');
+    
+    return {
+        entries,
+        stop: async () => {
+            await client.detach().catch(() => {});
+        }
+    };
+}
+
+function isFailedRequest(entry: NetworkEntry): boolean {
+    return entry.error !== undefined || (entry.status ?? 0) >= 400;
+}
+
+function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+}
+
+// Summarize a recording: totals, failed requests and the slowest resources
+function summarizeNetwork(entries: NetworkEntry[], slowestCount: number = 5): string {
+    const totalBytes = entries.reduce((sum, entry) => sum + entry.transferBytes, 0);
+    const failed = entries.filter(isFailedRequest);
+    const unfinished = entries.filter(entry => entry.endTimestamp === undefined);
+    const slowest = entries
+        .filter(entry => entry.endTimestamp !== undefined)
+        .sort((a, b) => getRequestTime(b) - getRequestTime(a))
+        .slice(0, slowestCount);
+    
+    const byType = new Map<string, number>();
+    for (const entry of entries) {
+        byType.set(entry.resourceType, (byType.get(entry.resourceType) ?? 0) + 1);
+    }
+    
+    let summary = `Network: ${entries.length} requests, ${formatBytes(totalBytes)} transferred`;
+    if (unfinished.length > 0) {
+        summary += `, ${unfinished.length} still loading`;
+    }
+    summary += `\nBy type: ${[...byType].map(([type, count]) => `${type} ${count}`).join(', ') || 'none'}`;
+    summary += `\nFailed requests (${failed.length}):`;
+    summary += failed.length > 0
+        ? failed.map(entry => `\n  - ${entry.error ?? entry.status} ${entry.method} ${entry.url} (${entry.resourceType})`).join('')
+        : ' none';
+    if (slowest.length > 0) {
+        summary += `\nSlowest requests:`;
+        summary += slowest.map((entry, index) => `\n  ${index + 1}. ${Math.round(getRequestTime(entry))} ms ${entry.url} (${entry.resourceType}, ${entry.error ?? entry.status}, ${formatBytes(entry.transferBytes)})`).join('');
+    }
+    return summary;
+}
+
+// Console messages, uncaught errors and failed resource loads of a capture page
+const pageLogLevels = ['debug', 'info', 'warning', 'error'] as const;
+type PageLogLevel = typeof pageLogLevels[number];
+
+interface PageLogEntry {
+    level: PageLogLevel;
+    source: string;
+    text: string;
+    location?: string;
+}
+
+interface PageLogRecording {
+    entries: PageLogEntry[];
+    stop: () => Promise<void>;
+}
+
+function getConsoleLevel(type: string): PageLogLevel {
+    switch (type) {
+        case 'error':
+        case 'assert':
+            return 'error';
+        case 'warn':
+            return 'warning';
+        case 'log':
+        case 'info':
+            return 'info';
+        default:
+            return 'debug';
+    }
+}
+
+function formatSourceLocation(url: string | undefined, lineNumber?: number, columnNumber?: number): string | undefined {
+    if (!url) return undefined;
+    // Line and column numbers from the DevTools protocol are zero-based
+    return lineNumber !== undefined ? `${url}:${lineNumber + 1}:${(columnNumber ?? 0) + 1}` : url;
+}
+
+// Record console messages, uncaught exceptions, unhandled promise rejections and failed subresource loads
+async function startPageLogRecording(page: Page): Promise<PageLogRecording> {
+    const entries: PageLogEntry[] = [];
+    
+    const onConsole = (message: ConsoleMessage) => {
+        // Failed loads are reported from the responses below, with their method and resource type
+        if (message.text().startsWith('Failed to load resource')) return;
+        const location = message.location();
+        entries.push({
+            level: getConsoleLevel(message.type()),
+            source: `console.${message.type()}`,
+            text: message.text(),
+            location: formatSourceLocation(location.url, location.lineNumber, location.columnNumber)
+        });
+    };
+    const onResponse = (response: HTTPResponse) => {
+        if (response.status() < 400) return;
+        const request = response.request();
+        entries.push({
+            level: 'error',
+            source: 'resource',
+            text: `${response.status()} ${response.statusText()} ${request.method()} ${response.url()} (${request.resourceType()})`
+        });
+    };
+    const onRequestFailed = (request: HTTPRequest) => {
+        const errorText = request.failure()?.errorText ?? 'failed';
+        entries.push({
+            // Aborted loads are usually the page navigating or cancelling them itself,
+            // and loads blocked by the client were blocked on purpose by request rules
+            level: errorText === 'net::ERR_BLOCKED_BY_CLIENT' ? 'info' : errorText === 'net::ERR_ABORTED' ? 'warning' : 'error',
+            source: 'resource',
+            text: `${errorText} ${request.method()} ${request.url()} (${request.resourceType()})`
+        });
+    };
+    
+    // Exceptions come from the DevTools protocol, which tells uncaught errors and rejected promises apart
+    const client = await page.createCDPSession();
+    client.on('Runtime.exceptionThrown', ({ exceptionDetails }) => {
+        const frame = exceptionDetails.stackTrace?.callFrames[0];
+        entries.push({
+            level: 'error',
+            source: exceptionDetails.text.includes('(in promise)') ? 'unhandled rejection' : 'uncaught exception',
+            text: exceptionDetails.exception?.description ?? exceptionDetails.exception?.value?.toString() ?? exceptionDetails.text,
+            location: frame
+                ? formatSourceLocation(frame.url, frame.lineNumber, frame.columnNumber)
+                : formatSourceLocation(exceptionDetails.url, exceptionDetails.lineNumber, exceptionDetails.columnNumber)
+        });
+    });
+    await client.send('Runtime.enable');
+    
+    page.on('console', onConsole);
+    page.on('response', onResponse);
+    page.on('requestfailed', onRequestFailed);
+    
+    return {
+        entries,
+        stop: async () => {
+            page.off('console', onConsole);
+            page.off('response', onResponse);
+            page.off('requestfailed', onRequestFailed);
+            await client.detach().catch(() => {});
+        }
+    };
+}
+
+// Format the recorded page log at or above a minimum level
+function formatPageLog(entries: PageLogEntry[], minLevel: PageLogLevel, maxEntries: number = 50): string {
+    const minIndex = pageLogLevels.indexOf(minLevel);
+    const shown = entries.filter(entry => pageLogLevels.indexOf(entry.level) >= minIndex);
+    const counts = pageLogLevels
+        .map(level => [level, shown.filter(entry => entry.level === level).length] as const)
+        .filter(([, count]) => count > 0)
+        .reverse()
+        .map(([level, count]) => `${count} ${level}`);
+    const hidden = entries.length - shown.length;
+    
+    let report = `\n\nPage log (level ${minLevel} and above): ${counts.length > 0 ? counts.join(', ') : 'no entries'}`;
+    if (hidden > 0) {
+        report += ` (${hidden} lower-level ${hidden === 1 ? 'entry' : 'entries'} hidden)`;
+    }
+    for (const entry of shown.slice(0, maxEntries)) {
+        report += `\n  [${entry.level}] ${entry.source}: ${entry.text}${entry.location ? ` (${entry.location})` : ''}`;
+    }
+    if (shown.length > maxEntries) {
+        report += `\n  ... and ${shown.length - maxEntries} more`;
+    }
+    return report;
+}
+
+// Request rules: block requests, mock responses and add headers while capturing
+const requestResourceTypes = ['document', 'stylesheet', 'image', 'media', 'font', 'script', 'texttrack', 'xhr', 'fetch', 'prefetch', 'eventsource', 'websocket', 'manifest', 'signedexchange', 'ping', 'cspviolationreport', 'preflight', 'other'] as const;
+
+const requestRulesSchema = z.object({
+    block: z.array(z.string()).optional().describe("Regular expressions of request URLs to block"),
+    blockResourceTypes: z.array(z.enum(requestResourceTypes)).optional().describe("Resource types to block, e.g. [\"media\", \"font\"]"),
+    blockTrackers: z.boolean().optional().describe("Whether to block requests to known ad and tracker domains (default: false)"),
+    mocks: z.array(z.object({
+        urlPattern: z.string().describe("Regular expression of request URLs to answer"),
+        method: z.string().optional().describe("HTTP method to answer (default: any)"),
+        status: z.number().int().optional().describe("Response status (default: 200)"),
+        headers: z.record(z.string()).optional().describe("Response headers"),
+        json: z.any().optional().describe("Inline JSON response body"),
+        body: z.string().optional().describe("Inline text response body"),
+        file: z.string().optional().describe("Fixture file to respond with, relative to MCP_SCREENSHOT_FIXTURES_DIR and inside it")
+    })).optional().describe("Responses to return instead of requesting matching URLs; the first matching mock is used"),
+    headers: z.record(z.string()).optional().describe("Extra HTTP headers to send, e.g. Authorization or feature-flag headers"),
+    headersUrlPattern: z.string().optional().describe("Regular expression of request URLs to add the headers to (default: requests to the captured URL's origin)")
+}).describe("Request rules: block requests by URL or resource type, block trackers, mock responses and add headers");
+
+type RequestRules = z.infer<typeof requestRulesSchema>;
+
+// Ad, analytics and tracker domains blocked by blockTrackers (subdomains included)
+const trackerDomains = [
+    'google-analytics.com', 'googletagmanager.com', 'googleadservices.com', 'googlesyndication.com', 'doubleclick.net',
+    'adservice.google.com', 'connect.facebook.net', 'facebook.com/tr', 'analytics.twitter.com', 'ads-twitter.com',
+    'static.ads-twitter.com', 'analytics.tiktok.com', 'snap.licdn.com', 'px.ads.linkedin.com', 'bat.bing.com', 'clarity.ms',
+    'hotjar.com', 'hotjar.io', 'fullstory.com', 'mouseflow.com', 'crazyegg.com', 'luckyorange.com', 'segment.com', 'segment.io',
+    'mixpanel.com', 'amplitude.com', 'heap.io', 'heapanalytics.com', 'intercom.io', 'intercomcdn.com', 'hs-analytics.net',
+    'hs-scripts.com', 'hsadspixel.net', 'optimizely.com', 'newrelic.com', 'nr-data.net', 'quantserve.com', 'scorecardresearch.com',
+    'taboola.com', 'outbrain.com', 'criteo.com', 'criteo.net', 'adnxs.com', 'rubiconproject.com', 'pubmatic.com', 'openx.net',
+    'amazon-adsystem.com', 'moatads.com', 'chartbeat.com', 'chartbeat.net', 'yandex.ru/metrika', 'mc.yandex.ru', 'matomo.cloud',
+    'onetrust.com', 'cookielaw.org', 'cookiebot.com', 'trustarc.com', 'zopim.com', 'zdassets.com', 'drift.com', 'driftt.com'
+];
+
+function isTrackerUrl(url: string): boolean {
+    let hostname: string;
+    let pathname: string;
+    try {
+        ({ hostname, pathname } = new URL(url));
+    } catch {
+        return false;
+    }
+    return trackerDomains.some(entry => {
+        const [domain, ...pathParts] = entry.split('/');
+        const pathPrefix = pathParts.length > 0 ? `/${pathParts.join('/')}` : '';
+        return (hostname === domain || hostname.endsWith(`.${domain}`)) &&
+            (!pathPrefix || pathname === pathPrefix || pathname.startsWith(`${pathPrefix}/`));
+    });
+}
+
+const fixtureContentTypes: Record<string, string> = {
+    '.json': 'application/json',
+    '.html': 'text/html',
+    '.htm': 'text/html',
+    '.js': 'application/javascript',
+    '.css': 'text/css',
+    '.txt': 'text/plain',
+    '.xml': 'application/xml',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.woff': 'font/woff',
+    '.woff2': 'font/woff2'
+};
+
+interface RequestInterception {
+    blocked: Map<string, number>;
+    mocked: number;
+    withHeaders: number;
+    stop: () => Promise<void>;
+}
+
+// Intercept the requests of a page according to the request rules. Mocks win over blocks,
+// and everything else continues with the extra headers where they apply.
+async function applyRequestRules(page: Page, rules: RequestRules, captureUrl: string): Promise<RequestInterception> {
+    const blockPatterns = (rules.block ?? []).map(pattern => new RegExp(pattern));
+    const blockTypes = new Set<string>(rules.blockResourceTypes ?? []);
+    const headersPattern = rules.headersUrlPattern ? new RegExp(rules.headersUrlPattern) : null;
+    const captureOrigin = new URL(captureUrl).origin;
+    
+    // Read fixture files up front so a missing file fails the capture instead of a single request
+    const mocks = await Promise.all((rules.mocks ?? []).map(async mock => {
+        let body: Buffer | string = mock.body ?? '';
+        let contentType = mock.headers?.['content-type'] ?? mock.headers?.['Content-Type'];
+        if (mock.file) {
+            const filePath = resolveFixturePath(fixturesDir, mock.file);
+            try {
+                body = await fsPromises.readFile(filePath);
+            } catch {
+                throw new Error(`Fixture file not found: ${filePath}`);
+            }
+            contentType ??= fixtureContentTypes[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream';
+        } else if (mock.json !== undefined) {
+            body = JSON.stringify(mock.json);
+            contentType ??= 'application/json';
+        }
+        return {
+            pattern: new RegExp(mock.urlPattern),
+            method: mock.method?.toUpperCase(),
+            status: mock.status ?? 200,
+            headers: { 'access-control-allow-origin': '*', ...mock.headers },
+            contentType: contentType ?? 'text/plain',
+            body
+        };
+    }));
+    
+    const interception: RequestInterception = {
+        blocked: new Map(),
+        mocked: 0,
+        withHeaders: 0,
+        stop: async () => {
+            page.off('request', onRequest);
+            await page.setRequestInterception(false).catch(() => {});
+        }
+    };
+    const block = (request: HTTPRequest, reason: string) => {
+        interception.blocked.set(reason, (interception.blocked.get(reason) ?? 0) + 1);
+        return request.abort('blockedbyclient');
+    };
+    
+    const onRequest = (request: HTTPRequest) => {
+        const requestUrl = request.url();
+        const handle = async () => {
+            const mock = mocks.find(candidate => candidate.pattern.test(requestUrl) && (!candidate.method || candidate.method === request.method()));
+            if (mock) {
+                interception.mocked++;
+                return request.respond({ status: mock.status, headers: mock.headers, contentType: mock.contentType, body: mock.body });
+            }
+            if (blockPatterns.some(pattern => pattern.test(requestUrl))) {
+                return block(request, 'URL pattern');
+            }
+            if (blockTypes.has(request.resourceType())) {
+                return block(request, 'resource type');
+            }
+            if (rules.blockTrackers && isTrackerUrl(requestUrl)) {
+                return block(request, 'tracker');
+            }
+            
+            const addHeaders = rules.headers && (headersPattern ? headersPattern.test(requestUrl) : requestUrl.startsWith(`${captureOrigin}/`));
+            if (addHeaders) {
+                interception.withHeaders++;
+                return request.continue({ headers: { ...request.headers(), ...rules.headers } });
+            }
+            return request.continue();
+        };
+        // The request may already be gone when the page navigates away
+        handle().catch(() => {});
+    };
+    
+    await page.setRequestInterception(true);
+    page.on('request', onRequest);
+    
+    return interception;
+}
+
+function describeRequestInterception(interception: RequestInterception): string {
+    const blockedTotal = [...interception.blocked.values()].reduce((sum, count) => sum + count, 0);
+    const blockedDetail = [...interception.blocked].map(([reason, count]) => `${count} by ${reason}`).join(', ');
+    return `\nRequest rules: ${blockedTotal} blocked${blockedTotal > 0 ? ` (${blockedDetail})` : ''}, ${interception.mocked} mocked, headers added to ${interception.withHeaders}`;
+}
+
+// Emulated user preferences and environment: colour scheme, motion, media, locale, timezone,
+// geolocation and vision deficiencies
+const emulationSchema = z.object({
+    colorScheme: z.enum(['light', 'dark', 'no-preference']).optional().describe("prefers-color-scheme to emulate"),
+    reducedMotion: z.enum(['reduce', 'no-preference']).optional().describe("prefers-reduced-motion to emulate"),
+    mediaType: z.enum(['screen', 'print']).optional().describe("CSS media type to emulate"),
+    locale: z.string().optional().describe("BCP 47 locale, e.g. \"de-DE\": sets Accept-Language, navigator.language(s) and the default Intl locale"),
+    timezone: z.string().optional().describe("IANA timezone ID, e.g. \"America/New_York\""),
+    geolocation: z.object({
+        latitude: z.number().min(-90).max(90),
+        longitude: z.number().min(-180).max(180),
+        accuracy: z.number().min(0).optional().describe("Accuracy in metres (default: 10)")
+    }).optional().describe("Position to report to the Geolocation API; permission is granted to the page's origin"),
+    visionDeficiency: z.enum(['achromatopsia', 'blurredVision', 'deuteranopia', 'protanopia', 'tritanopia', 'reducedContrast']).optional().describe("Vision deficiency to simulate")
+}).describe("Emulate user preferences and environment: { colorScheme, reducedMotion, mediaType, locale, timezone, geolocation, visionDeficiency }");
+
+type Emulation = z.infer<typeof emulationSchema>;
+
+// Undo the emulation of a page that stays open after its capture
+const pageEmulationResets = new WeakMap<Page, () => Promise<void>>();
+
+// The navigator languages for a locale: the locale, then its base language
+function getLocaleLanguages(locale: string): string[] {
+    let canonical: string;
+    try {
+        [canonical] = Intl.getCanonicalLocales(locale);
+    } catch {
+        throw new Error(`Invalid locale: ${locale}`);
+    }
+    const language = canonical.split('-')[0];
+    return language === canonical ? [canonical] : [canonical, language];
+}
+
+function getAcceptLanguage(languages: string[]): string {
+    return languages.map((language, index) => index === 0 ? language : `${language};q=${(1 - index / 10).toFixed(1)}`).join(',');
+}
+
+// Runs in the page: report the emulated languages from navigator
+function overrideNavigatorLanguages(languages: string[]) {
+    Object.defineProperty(window.navigator, 'language', { get: () => languages[0], configurable: true });
+    Object.defineProperty(window.navigator, 'languages', { get: () => [...languages], configurable: true });
+}
+
+// Geolocation grants per browser context and origin. They are counted so that pages on the same origin
+// do not revoke each other's grant, and set one by one so that no other permission is touched.
+const geolocationGrants = new Map<string, number>();
+
+async function setGeolocationPermission(page: Page, origin: string, setting: Protocol.Browser.PermissionSetting) {
+    const client = await page.browser().target().createCDPSession();
+    try {
+        await client.send('Browser.setPermission', {
+            permission: { name: 'geolocation' },
+            setting,
+            origin,
+            browserContextId: page.browserContext().id
+        });
+    } finally {
+        await client.detach().catch(() => {});
+    }
+}
+
+// Grant geolocation to an origin for a page. Returns how to give the permission back to the prompt
+// state, which also happens when the page is closed.
+async function grantGeolocation(page: Page, origin: string): Promise<() => Promise<void>> {
+    const key = `${page.browserContext().id ?? 'default'}|${origin}`;
+    const count = geolocationGrants.get(key) ?? 0;
+    geolocationGrants.set(key, count + 1);
+    let revoked = false;
+    const revoke = async () => {
+        if (revoked) return;
+        revoked = true;
+        page.off('close', onClose);
+        const remaining = (geolocationGrants.get(key) ?? 1) - 1;
+        if (remaining > 0) {
+            geolocationGrants.set(key, remaining);
+            return;
+        }
+        geolocationGrants.delete(key);
+        await setGeolocationPermission(page, origin, 'prompt').catch(() => {});
+    };
+    const onClose = () => {
+        revoke();
+    };
+    page.on('close', onClose);
+    
+    if (count === 0) {
+        try {
+            await setGeolocationPermission(page, origin, 'granted');
+        } catch (error) {
+            await revoke();
+            throw error;
+        }
+    }
+    return revoke;
+}
+
+// Apply the emulation before navigating, and register how to undo it on release
+async function applyEmulation(page: Page, emulation: Emulation, url: string) {
+    // A reused page may still carry the emulation of an earlier capture that was never released
+    await pageEmulationResets.get(page)?.();
+    const resets: (() => Promise<unknown>)[] = [];
+    pageEmulationResets.set(page, async () => {
+        for (const reset of resets.splice(0)) {
+            await reset().catch(() => {});
+        }
+    });
+    
+    const features = [
+        ...(emulation.colorScheme ? [{ name: 'prefers-color-scheme', value: emulation.colorScheme }] : []),
+        ...(emulation.reducedMotion ? [{ name: 'prefers-reduced-motion', value: emulation.reducedMotion }] : [])
+    ];
+    if (features.length > 0) {
+        await page.emulateMediaFeatures(features);
+        resets.push(() => page.emulateMediaFeatures());
+    }
+    if (emulation.mediaType) {
+        await page.emulateMediaType(emulation.mediaType);
+        resets.push(() => page.emulateMediaType());
+    }
+    if (emulation.locale) {
+        const languages = getLocaleLanguages(emulation.locale);
+        const client = await page.createCDPSession();
+        resets.push(() => client.detach());
+        await client.send('Emulation.setLocaleOverride', { locale: languages[0].replace(/-/g, '_') });
+        await page.setExtraHTTPHeaders({ 'Accept-Language': getAcceptLanguage(languages) });
+        resets.push(() => page.setExtraHTTPHeaders({}));
+        const script = await page.evaluateOnNewDocument(overrideNavigatorLanguages, languages);
+        resets.push(() => page.removeScriptToEvaluateOnNewDocument(script.identifier));
+    }
+    if (emulation.timezone) {
+        await page.emulateTimezone(emulation.timezone);
+        resets.push(() => page.emulateTimezone());
+    }
+    if (emulation.geolocation) {
+        resets.push(await grantGeolocation(page, new URL(url).origin));
+        const client = await page.createCDPSession();
+        resets.push(async () => {
+            await client.send('Emulation.clearGeolocationOverride').catch(() => {});
+            await client.detach();
+        });
+        await client.send('Emulation.setGeolocationOverride', { accuracy: 10, ...emulation.geolocation });
+    }
+    if (emulation.visionDeficiency) {
+        await page.emulateVisionDeficiency(emulation.visionDeficiency);
+        resets.push(() => page.emulateVisionDeficiency('none'));
+    }
+}
+
+// Echo the emulation a capture was taken with
+function describeEmulation(emulation: Emulation | undefined): string {
+    if (!emulation) {
+        return '';
+    }
+    const applied: string[] = [];
+    if (emulation.colorScheme) applied.push(`prefers-color-scheme: ${emulation.colorScheme}`);
+    if (emulation.reducedMotion) applied.push(`prefers-reduced-motion: ${emulation.reducedMotion}`);
+    if (emulation.mediaType) applied.push(`media type: ${emulation.mediaType}`);
+    if (emulation.locale) {
+        const languages = getLocaleLanguages(emulation.locale);
+        applied.push(`locale: ${languages[0]} (Accept-Language: ${getAcceptLanguage(languages)})`);
+    }
+    if (emulation.timezone) applied.push(`timezone: ${emulation.timezone}`);
+    if (emulation.geolocation) {
+        const { latitude, longitude, accuracy = 10 } = emulation.geolocation;
+        applied.push(`geolocation: ${latitude}, ${longitude} (±${accuracy} m, permission granted)`);
+    }
+    if (emulation.visionDeficiency) applied.push(`vision deficiency: ${emulation.visionDeficiency}`);
+    return applied.length > 0 ? `\nEmulation: ${applied.join(', ')}` : '';
+}
+
+// Deterministic rendering: pinned clock, seeded randomness and no animations
+const stableSchema = z.union([
+    z.boolean(),
+    z.object({
+        time: z.union([z.string(), z.number()]).optional().describe("Time to pin the clock to, as an ISO date or a Unix timestamp in milliseconds (default: 2024-01-01T00:00:00Z)"),
+        seed: z.number().int().optional().describe("Seed for Math.random (default: 1)"),
+        timeout: z.number().optional().describe("Maximum milliseconds to wait for fonts and layout to settle (default: 5000)")
+    })
+]).describe("Render deterministically: disable CSS animations and transitions, pin the clock, seed Math.random, and wait for web fonts and a stable layout before capturing. Pass true, or { time, seed, timeout }");
+
+interface StableOptions {
+    time: number;
+    seed: number;
+    timeout: number;
+}
+
+function resolveStableOptions(stable: z.infer<typeof stableSchema> | undefined): StableOptions | undefined {
+    if (!stable) {
+        return undefined;
+    }
+    const settings = stable === true ? {} : stable;
+    const time = new Date(settings.time ?? '2024-01-01T00:00:00Z').getTime();
+    if (Number.isNaN(time)) {
+        throw new Error(`Invalid stable time: ${settings.time}`);
+    }
+    return { time, seed: settings.seed ?? 1, timeout: settings.timeout ?? 5000 };
+}
+
+// Runs in the page before its own scripts: start the clock at a pinned time, seed Math.random and stop
+// animations. The native Date and Math.random are kept on the window so undoCaptureChanges can restore them.
+function stabilizePage(time: number, seed: number) {
+    const nativesKey = Symbol.for('mcp-stable-natives');
+    const natives: { Date: DateConstructor; random: () => number } = (window as any)[nativesKey] ?? { Date, random: Math.random };
+    (window as any)[nativesKey] = natives;
+    
+    // The clock runs on from the pinned time, so code that waits for time to pass still finishes
+    const NativeDate = natives.Date;
+    const start = performance.now();
+    const now = () => time + Math.floor(performance.now() - start);
+    class PinnedDate extends NativeDate {
+        constructor(...args: any[]) {
+            if (args.length === 0) {
+                super(now());
+            } else {
+                super(...(args as [any]));
+            }
+        }
+        static now() {
+            return now();
+        }
+    }
+    // Date() called without new returns a string
+    (window as any).Date = new Proxy(PinnedDate, {
+        apply: () => new NativeDate(now()).toString()
+    });
+    
+    // mulberry32
+    let state = seed >>> 0;
+    Math.random = () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+    
+    const addStyle = () => {
+        document.querySelectorAll('style[data-mcp-stable]').forEach(style => style.remove());
+        const style = document.createElement('style');
+        style.setAttribute('data-mcp-stable', '');
+        style.textContent = `*, *::before, *::after {
+            animation-duration: 0s !important;
+            animation-delay: 0s !important;
+            animation-iteration-count: 1 !important;
+            transition: none !important;
+            caret-color: transparent !important;
+            scroll-behavior: auto !important;
+        }`;
+        (document.head || document.documentElement).appendChild(style);
+    };
+    if (document.documentElement) {
+        addStyle();
+    } else {
+        document.addEventListener('DOMContentLoaded', addStyle);
+    }
+}
+
+// Wait for web fonts, pause videos, then wait until the layout is unchanged for a few animation frames
+async function waitForStablePage(page: Page, options: StableOptions): Promise<string> {
+    const startTime = Date.now();
+    await Promise.race([
+        page.evaluate(() => document.fonts.ready.then(() => undefined)),
+        new Promise(resolve => setTimeout(resolve, options.timeout))
+    ]);
+    
+    const remaining = Math.max(0, options.timeout - (Date.now() - startTime));
+    const frames = await page.evaluate((timeout, requiredFrames) => new Promise<number | null>(resolve => {
+        document.querySelectorAll('video').forEach(video => {
+            video.pause();
+            video.currentTime = 0;
+        });
+        
+        // Hash the document size and the boxes of (at most 2000) elements
+        const measure = () => {
+            const root = document.documentElement;
+            let hash = root.scrollWidth * 31 + root.scrollHeight;
+            const elements = document.body ? document.body.getElementsByTagName('*') : [];
+            for (let i = 0; i < elements.length && i < 2000; i++) {
+                const rect = elements[i].getBoundingClientRect();
+                hash = (Math.imul(hash, 31) + Math.round(rect.x)) | 0;
+                hash = (Math.imul(hash, 31) + Math.round(rect.y)) | 0;
+                hash = (Math.imul(hash, 31) + Math.round(rect.width)) | 0;
+                hash = (Math.imul(hash, 31) + Math.round(rect.height)) | 0;
+            }
+            return hash;
+        };
+        
+        let last: number | null = null;
+        let stableFrames = 0;
+        let frameCount = 0;
+        // Animation frames may not run in a background window, so also stop on a timer
+        const timer = setTimeout(() => resolve(null), timeout);
+        const tick = () => {
+            frameCount++;
+            const current = measure();
+            stableFrames = current === last ? stableFrames + 1 : 0;
+            last = current;
+            if (stableFrames >= requiredFrames) {
+                clearTimeout(timer);
+                resolve(frameCount);
+            } else {
+                requestAnimationFrame(tick);
+            }
+        };
+        requestAnimationFrame(tick);
+    }), remaining, 5);
+    
+    const layout = frames !== null ? `layout settled after ${frames} frames` : `layout still changing after ${options.timeout} ms`;
+    return `\nStable mode: clock pinned to ${new Date(options.time).toISOString()}, random seed ${options.seed}, ${layout}`;
+}
+
+// Redaction: hide elements from layout and paint solid boxes over sensitive ones
+interface SelectorMatchCount {
+    selector: string;
+    count: number;
+    error?: string;
+}
+
+// Runs in the page: hide and mask elements, returning how many elements each selector matched
+function redactPage(hide: string[], mask: string[], maskColor: string) {
+    const querySelectors = (selectors: string[]) => selectors.map(selector => {
+        try {
+            return { selector, elements: Array.from(document.querySelectorAll(selector)) };
+        } catch {
+            return { selector, elements: [] as Element[], error: 'invalid selector' };
+        }
+    });
+    
+    // Hide first, so the masks are placed on the final layout
+    const hidden = querySelectors(hide);
+    for (const { elements } of hidden) {
+        for (const element of elements as HTMLElement[]) {
+            if (!element.hasAttribute('data-mcp-hidden')) {
+                element.setAttribute('data-mcp-hidden', `${element.style.getPropertyValue('display')}|${element.style.getPropertyPriority('display')}`);
+            }
+            element.style.setProperty('display', 'none', 'important');
+        }
+    }
+    
+    // Replace the masks of an earlier pass, which may no longer line up
+    document.querySelectorAll('[data-mcp-mask]').forEach(overlay => overlay.remove());
+    const masked = querySelectors(mask);
+    for (const { elements } of masked) {
+        for (const element of elements) {
+            // Hidden elements paint nothing, such as fixed headers a scroll and stitch capture hid
+            const rect = element.getBoundingClientRect();
+            if ((rect.width === 0 && rect.height === 0) || getComputedStyle(element).visibility === 'hidden') continue;
+            
+            // Elements inside fixed containers stay in the viewport, so their mask has to as well
+            let fixed = false;
+            for (let current: Element | null = element; current; current = current.parentElement) {
+                if (getComputedStyle(current).position === 'fixed') {
+                    fixed = true;
+                    break;
+                }
+            }
+            
+            const overlay = document.createElement('div');
+            overlay.setAttribute('data-mcp-mask', '');
+            overlay.style.cssText = `position: ${fixed ? 'fixed' : 'absolute'}; z-index: 2147483647; pointer-events: none; margin: 0; border: 0; background: ${maskColor};` +
+                `left: ${rect.left + (fixed ? 0 : window.scrollX)}px; top: ${rect.top + (fixed ? 0 : window.scrollY)}px; width: ${rect.width}px; height: ${rect.height}px;`;
+            document.documentElement.appendChild(overlay);
+        }
+    }
+    
+    const toCounts = (matches: { selector: string; elements: Element[]; error?: string }[]) =>
+        matches.map(({ selector, elements, error }) => ({ selector, count: elements.length, error }));
+    return { hidden: toCounts(hidden), masked: toCounts(masked) };
+}
+
+// Runs in the page: remove masks, annotations and the stable mode style, show hidden and sticky elements again
+// and restore the native clock and randomness, for pages that stay open
+function undoCaptureChanges() {
+    document.querySelectorAll('[data-mcp-mask], [data-mcp-annotation], [data-mcp-stable]').forEach(overlay => overlay.remove());
+    const nativesKey = Symbol.for('mcp-stable-natives');
+    const natives = (window as any)[nativesKey];
+    if (natives) {
+        (window as any).Date = natives.Date;
+        Math.random = natives.random;
+        delete (window as any)[nativesKey];
+    }
+    document.querySelectorAll<HTMLElement>('[data-mcp-hidden]').forEach(element => {
+        const [value, priority] = (element.getAttribute('data-mcp-hidden') ?? '|').split('|');
+        element.style.setProperty('display', value, priority);
+        element.removeAttribute('data-mcp-hidden');
+    });
+    document.querySelectorAll<HTMLElement>('[data-mcp-sticky]').forEach(element => {
+        const [value, priority] = (element.getAttribute('data-mcp-sticky') ?? '|').split('|');
+        element.style.setProperty('visibility', value, priority);
+        element.removeAttribute('data-mcp-sticky');
+    });
+}
+
+interface ElementInfo {
+    index: number;
+    tag: string;
+    path: string;
+    text: string;
+    box: { x: number; y: number; width: number; height: number };
+}
+
+// Runs in the page: describe the elements matching a selector (up to a limit) by index, CSS path,
+// text and bounding box in page coordinates, optionally drawing numbered outlines over them
+function inspectElements(selector: string, limit: number, annotate: boolean) {
+    const colors = ['#e6194b', '#3cb44b', '#4363d8', '#f58231', '#911eb4', '#0f9ba8', '#f032e6', '#9a6324'];
+    const matches = Array.from(document.querySelectorAll(selector));
+    
+    const getPath = (element: Element) => {
+        const parts: string[] = [];
+        for (let current: Element | null = element; current && current !== document.documentElement; current = current.parentElement) {
+            if (current.id) {
+                parts.unshift(`#${CSS.escape(current.id)}`);
+                break;
+            }
+            let part = current.tagName.toLowerCase();
+            const siblings = current.parentElement ? Array.from(current.parentElement.children).filter(child => child.tagName === current!.tagName) : [];
+            if (siblings.length > 1) {
+                part += `:nth-of-type(${siblings.indexOf(current) + 1})`;
+            }
+            parts.unshift(part);
+        }
+        return parts.join(' > ');
+    };
+    
+    const elements = matches.slice(0, limit).map((element, i) => {
+        const rect = element.getBoundingClientRect();
+        let fixed = false;
+        for (let current: Element | null = element; current; current = current.parentElement) {
+            if (getComputedStyle(current).position === 'fixed') {
+                fixed = true;
+                break;
+            }
+        }
+        const left = rect.left + (fixed ? 0 : window.scrollX);
+        const top = rect.top + (fixed ? 0 : window.scrollY);
+        
+        if (annotate && (rect.width > 0 || rect.height > 0)) {
+            const color = colors[i % colors.length];
+            const outline = document.createElement('div');
+            outline.setAttribute('data-mcp-annotation', '');
+            outline.style.cssText = `position: ${fixed ? 'fixed' : 'absolute'}; z-index: 2147483646; pointer-events: none; box-sizing: border-box; margin: 0;` +
+                `left: ${left}px; top: ${top}px; width: ${rect.width}px; height: ${rect.height}px; border: 2px solid ${color};`;
+            const label = document.createElement('div');
+            label.setAttribute('data-mcp-annotation', '');
+            label.textContent = String(i + 1);
+            // Put the number above the outline, or inside it at the top of the page
+            label.style.cssText = `position: ${fixed ? 'fixed' : 'absolute'}; z-index: 2147483647; pointer-events: none; margin: 0; padding: 1px 5px;` +
+                `left: ${left}px; top: ${top >= 18 ? top - 18 : top}px; background: ${color}; color: #fff; font: bold 12px/16px sans-serif; border-radius: 2px;`;
+            document.documentElement.append(outline, label);
+        }
+        
+        const text = (element as HTMLElement).innerText || element.getAttribute('aria-label') || element.getAttribute('alt') ||
+            element.getAttribute('title') || (element as HTMLInputElement).value || '';
+        return {
+            index: i + 1,
+            tag: element.tagName.toLowerCase(),
+            path: getPath(element),
+            text: text.replace(/\s+/g, ' ').trim().slice(0, 80),
+            box: { x: Math.round(left), y: Math.round(top), width: Math.round(rect.width), height: Math.round(rect.height) }
+        };
+    });
+    
+    return { total: matches.length, elements };
+}
+
+function describeElementInfo(info: ElementInfo): string {
+    const { x, y, width, height } = info.box;
+    return `${info.index}. <${info.tag}>${info.text ? ` "${info.text}"` : ''} at (${x}, ${y}) ${width}x${height}\n     Path: ${info.path}`;
+}
+
+interface ElementCapture {
+    screenshot: string;
+    region: { x: number; y: number; width: number; height: number };
+}
+
+// Capture an element with padding: the clip region is grown around its bounding box and clamped
+// to the page, without changing the DOM. Masks are applied once the element is scrolled into place,
+// so they line up with content in scrolled containers too.
+async function captureElementRegion(element: ElementHandle<Element>, padding: number, scrollIntoView: boolean, options: ScreenshotOptions, applyMasks: () => Promise<void>): Promise<ElementCapture> {
+    if (scrollIntoView) {
+        // Centre the element and give scroll-triggered rendering two frames to catch up
+        await element.evaluate(el => new Promise(resolve => {
+            el.scrollIntoView({ block: 'center', inline: 'center' });
+            requestAnimationFrame(() => requestAnimationFrame(resolve));
+            setTimeout(resolve, 200);
+        }));
+    }
+    await applyMasks();
+    
+    const region = await element.evaluate((el, pad) => {
+        const rect = el.getBoundingClientRect();
+        const root = document.documentElement;
+        const pageWidth = Math.max(root.scrollWidth, document.body?.scrollWidth ?? 0);
+        const pageHeight = Math.max(root.scrollHeight, document.body?.scrollHeight ?? 0);
+        const x = rect.left + window.scrollX;
+        const y = rect.top + window.scrollY;
+        const left = Math.max(0, x - pad);
+        const top = Math.max(0, y - pad);
+        const right = Math.min(pageWidth, x + rect.width + pad);
+        const bottom = Math.min(pageHeight, y + rect.height + pad);
+        return { x: left, y: top, width: right - left, height: bottom - top };
+    }, padding);
+    if (region.width <= 0 || region.height <= 0) {
+        throw new Error('Element has no visible area on the page');
+    }
+    
+    // The clip is in page coordinates, so it can extend past the viewport
+    const screenshot = await element.frame.page().screenshot({
+        ...options,
+        encoding: 'base64',
+        clip: region
+    });
+    
+    return {
+        screenshot,
+        region: { x: Math.round(region.x), y: Math.round(region.y), width: Math.round(region.width), height: Math.round(region.height) }
+    };
+}
+
+// Find the nearest ancestor of an element that scrolls its content, if any
+async function findScrollableAncestor(element: ElementHandle<Element>): Promise<ElementHandle<Element> | null> {
+    const handle = await element.evaluateHandle(el => {
+        for (let current = el.parentElement; current && current !== document.body && current !== document.documentElement; current = current.parentElement) {
+            const style = getComputedStyle(current);
+            const scrollsY = /(auto|scroll|overlay)/.test(style.overflowY) && current.scrollHeight > current.clientHeight;
+            const scrollsX = /(auto|scroll|overlay)/.test(style.overflowX) && current.scrollWidth > current.clientWidth;
+            if (scrollsY || scrollsX) {
+                return current;
+            }
+        }
+        return null;
+    });
+    return handle.asElement() as ElementHandle<Element> | null;
+}
+
+function describeElementCapture(capture: ElementCapture, padding: number): string {
+    const { x, y, width, height } = capture.region;
+    return `Region: ${width}x${height} at (${x}, ${y})${padding > 0 ? `, ${padding}px padding` : ''}`;
+}
+
+// Scroll and stitch: capture a window or scroll container frame by frame, for lazy-loaded and
+// virtualized content that a single full-page capture misses
+const scrollAndStitchSchema = z.union([
+    z.boolean(),
+    z.object({
+        container: z.string().optional().describe("CSS selector of the scroll container to capture instead of the window"),
+        stepDelay: z.number().int().min(0).optional().describe("Milliseconds to wait after each scroll step for lazy content (default: 300)"),
+        maxHeight: z.number().int().min(100).optional().describe("Maximum height of the stitched image in CSS pixels (default: 20000)"),
+        maxSteps: z.number().int().min(1).max(200).optional().describe("Maximum number of scroll steps (default: 50)"),
+        hideSticky: z.boolean().optional().describe("Hide fixed and sticky elements after the first frame, so headers and widgets appear only once (default: true)")
+    })
+]).describe("Capture by scrolling one viewport at a time, waiting for lazy content at each step and stitching the frames into one PNG. Pass true, or { container, stepDelay, maxHeight, maxSteps, hideSticky }");
+
+function resolveScrollAndStitchOptions(scrollAndStitch: z.infer<typeof scrollAndStitchSchema> | undefined): ScrollAndStitchOptions | undefined {
+    if (!scrollAndStitch) {
+        return undefined;
+    }
+    const settings = scrollAndStitch === true ? {} : scrollAndStitch;
+    return {
+        container: settings.container,
+        stepDelay: settings.stepDelay ?? 300,
+        maxHeight: settings.maxHeight ?? 20000,
+        maxSteps: settings.maxSteps ?? 50,
+        hideSticky: settings.hideSticky ?? true
+    };
+}
+
+// Screen recording: CDP screencast frames, encoded locally as an animated GIF
+interface ScreencastRecording {
+    frames: ScreencastFrame[];
+    startTime: number;
+    stop: () => Promise<number>;
+}
+
+// Record the frames Chrome paints, scaled down from the viewport size; a frame arrives only when
+// the page changes, so a still page has few
+async function startScreencast(page: Page, scale: number): Promise<ScreencastRecording> {
+    const viewport = page.viewport() ?? { width: 1920, height: 1080 };
+    const client = await page.createCDPSession();
+    const frames: ScreencastFrame[] = [];
+    const startTime = Date.now() / 1000;
+    let endTime: number | undefined;
+    
+    client.on('Page.screencastFrame', ({ data, metadata, sessionId }) => {
+        frames.push({ data, time: metadata.timestamp ?? Date.now() / 1000 });
+        client.send('Page.screencastFrameAck', { sessionId }).catch(() => {});
+    });
+    await client.send('Page.startScreencast', {
+        format: 'png',
+        maxWidth: Math.max(1, Math.round(viewport.width * scale)),
+        maxHeight: Math.max(1, Math.round(viewport.height * scale)),
+        everyNthFrame: 1
+    });
+    
+    return {
+        frames,
+        startTime,
+        stop: async () => {
+            if (endTime === undefined) {
+                endTime = Date.now() / 1000;
+                await client.send('Page.stopScreencast').catch(() => {});
+                await client.detach().catch(() => {});
+            }
+            return endTime;
+        }
+    };
+}
+
+// Total pixels a recording encodes, to bound the time and memory of encoding: 150 frames at 960x540
+const maxRecordingPixels = 80_000_000;
+
+// Let other tool calls run between frames of a long encode
+function yieldToEventLoop(): Promise<void> {
+    return new Promise(resolve => setImmediate(resolve));
+}
+
+// Encode base64 PNG frames as a looping animated GIF with a palette per frame, decoding one frame at a time.
+// Each frame is written to a scratch buffer and copied out, so memory grows with the encoded size only.
+async function encodeGif(frames: { data: string; duration: number }[]): Promise<Buffer> {
+    const first = PNG.sync.read(Buffer.from(frames[0].data, 'base64'));
+    const { width, height } = first;
+    const header = Buffer.alloc(1024);
+    const writer = new omggif.GifWriter(header, width, height, { loop: 0 });
+    const chunks = [header.subarray(0, writer.getOutputBufferPosition())];
+    const scratch = Buffer.alloc(width * height * 2 + 1024);
+    for (const [index, { data, duration }] of frames.entries()) {
+        if (index > 0) {
+            await yieldToEventLoop();
+        }
+        const image = index === 0 ? first : PNG.sync.read(Buffer.from(data, 'base64'));
+        const { palette, indexed } = quantizeImage(image);
+        // Frames scaled from a different viewport size are cropped to the first frame
+        const frameWidth = Math.min(width, image.width);
+        const frameHeight = Math.min(height, image.height);
+        const cropped = frameWidth === image.width && frameHeight === image.height
+            ? indexed
+            : Array.from({ length: frameWidth * frameHeight }, (_, i) => indexed[Math.floor(i / frameWidth) * image.width + (i % frameWidth)]);
+        writer.setOutputBuffer(scratch);
+        writer.setOutputBufferPosition(0);
+        writer.addFrame(0, 0, frameWidth, frameHeight, cropped, { palette, delay: Math.max(2, Math.round(duration / 10)) });
+        chunks.push(Buffer.from(scratch.subarray(0, writer.getOutputBufferPosition())));
+    }
+    writer.setOutputBuffer(scratch);
+    writer.setOutputBufferPosition(0);
+    chunks.push(Buffer.from(scratch.subarray(0, writer.end())));
+    return Buffer.concat(chunks);
+}
+
+// Encode base64 PNG frames as a looping animated WebP with libwebp (WebAssembly), one frame at a time
+async function encodeWebp(frames: { data: string; duration: number }[], quality: number): Promise<Buffer> {
+    await WebP.Image.initLib();
+    const first = PNG.sync.read(Buffer.from(frames[0].data, 'base64'));
+    const { width, height } = first;
+    const encoded = [];
+    for (const [index, { data, duration }] of frames.entries()) {
+        if (index > 0) {
+            await yieldToEventLoop();
+        }
+        const image = index === 0 ? first : PNG.sync.read(Buffer.from(data, 'base64'));
+        // Frames scaled from a different viewport size are cropped to the first frame, and smaller ones padded
+        let pixels = image.data;
+        if (image.width !== width || image.height !== height) {
+            const canvas = new PNG({ width, height });
+            PNG.bitblt(image, canvas, 0, 0, Math.min(width, image.width), Math.min(height, image.height), 0, 0);
+            pixels = canvas.data;
+        }
+        const img = await WebP.Image.getEmptyImage();
+        const result = await img.setImageData(pixels, { width, height, quality });
+        if (result !== 0) {
+            throw new Error(`Could not encode WebP frame ${index + 1} (libwebp error ${result})`);
+        }
+        encoded.push(await WebP.Image.generateFrame({ img, delay: Math.max(20, duration) }));
+    }
+    return WebP.Image.save(null, { width, height, frames: encoded, loops: 0 });
+}
+
+interface PageExtract {
+    markdown: string;
+    contentRoot: string;
+    links: { text: string; href: string }[];
+    totalLinks: number;
+    headings: { level: number; text: string }[];
+    meta: { name: string; content: string }[];
+    html?: string;
+}
+
+// Runs in the page: convert the main content (or the element under a selector) to Markdown and
+// collect links, the headings outline and meta tags
+function extractPageContent(selector: string | null, maxLinks: number, includeHtml: boolean): PageExtract | null {
+    const explicitRoot = selector ? document.querySelector(selector) : null;
+    if (selector && !explicitRoot) {
+        return null;
+    }
+    const mainRoot = document.querySelector('main, article, [role="main"]');
+    const root = explicitRoot ?? mainRoot ?? document.body;
+    // Without a main element, leave out the page chrome around the content
+    const skipChrome = !explicitRoot && !mainRoot;
+    
+    const skipTags = new Set(['script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'select', 'input', 'textarea']);
+    const chromeTags = new Set(['nav', 'header', 'footer', 'aside']);
+    const blockTags = new Set(['div', 'section', 'article', 'main', 'header', 'footer', 'nav', 'aside', 'figure', 'figcaption', 'form', 'fieldset', 'details', 'summary', 'dl', 'dt', 'dd', 'address']);
+    const clean = (text: string) => text.replace(/\s+/g, ' ').trim();
+    
+    const convert = (node: Node, listDepth: number): string => {
+        if (node.nodeType === Node.TEXT_NODE) {
+            return (node.textContent ?? '').replace(/\s+/g, ' ');
+        }
+        if (node.nodeType !== Node.ELEMENT_NODE) {
+            return '';
+        }
+        const element = node as HTMLElement;
+        const tag = element.tagName.toLowerCase();
+        if (skipTags.has(tag) || (skipChrome && chromeTags.has(tag))) {
+            return '';
+        }
+        const style = getComputedStyle(element);
+        if (style.display === 'none' || style.visibility === 'hidden') {
+            return '';
+        }
+        const children = (depth: number = listDepth) => Array.from(element.childNodes).map(child => convert(child, depth)).join('');
+        
+        switch (tag) {
+            case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+                return `\n\n${'#'.repeat(Number(tag[1]))} ${clean(children())}\n\n`;
+            case 'p':
+                return `\n\n${children().trim()}\n\n`;
+            case 'br':
+                return '  \n';
+            case 'hr':
+                return '\n\n---\n\n';
+            case 'strong': case 'b': {
+                const text = children().trim();
+                return text ? `**${text}**` : '';
+            }
+            case 'em': case 'i': {
+                const text = children().trim();
+                return text ? `_${text}_` : '';
+            }
+            case 'code':
+                return element.closest('pre') ? element.textContent ?? '' : `\`${element.textContent ?? ''}\``;
+            case 'pre':
+                return `\n\n\`\`\`\n${(element.textContent ?? '').replace(/\n$/, '')}\n\`\`\`\n\n`;
+            case 'a': {
+                const text = clean(children());
+                const href = (element as HTMLAnchorElement).href;
+                return href && !href.startsWith('javascript:') && text ? `[${text}](${href})` : text;
+            }
+            case 'img': {
+                const image = element as HTMLImageElement;
+                return image.src ? `![${clean(image.alt)}](${image.src})` : '';
+            }
+            case 'ul': case 'ol': {
+                const items = Array.from(element.children).filter(child => child.tagName === 'LI');
+                const lines = items.map((item, i) => {
+                    const marker = tag === 'ol' ? `${i + 1}.` : '-';
+                    const text = Array.from(item.childNodes).map(child => convert(child, listDepth + 1)).join('').trim().replace(/\n{2,}/g, '\n');
+                    return `${'  '.repeat(listDepth)}${marker} ${text}`;
+                });
+                return `\n\n${lines.join('\n')}\n\n`;
+            }
+            case 'blockquote':
+                return `\n\n${children().trim().split('\n').map(line => `> ${line}`).join('\n')}\n\n`;
+            case 'table': {
+                const rows = Array.from(element.querySelectorAll('tr')).map(row =>
+                    Array.from(row.children).map(cell => clean(convert(cell, listDepth)).replace(/\|/g, '\\|'))
+                );
+                if (rows.length === 0) {
+                    return '';
+                }
+                const columns = Math.max(...rows.map(row => row.length));
+                const toLine = (cells: string[]) => `| ${Array.from({ length: columns }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+                return `\n\n${[toLine(rows[0]), toLine(Array(columns).fill('---')), ...rows.slice(1).map(toLine)].join('\n')}\n\n`;
+            }
+            case 'td': case 'th':
+                return children();
+            default:
+                return blockTags.has(tag) ? `\n${children()}\n` : children();
+        }
+    };
+    
+    const markdown = convert(root, 0)
+        .split('\n')
+        .map(line => line.replace(/[ \t]+$/, (match) => match === '  ' ? match : ''))
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+    
+    // Links of the whole page, without duplicates
+    const seen = new Set<string>();
+    const allLinks = Array.from(document.querySelectorAll('a[href]')).map(anchor => ({
+        text: clean((anchor as HTMLElement).innerText || anchor.getAttribute('aria-label') || anchor.getAttribute('title') || ''),
+        href: (anchor as HTMLAnchorElement).href
+    })).filter(link => {
+        const key = `${link.href}|${link.text}`;
+        if (link.href.startsWith('javascript:') || seen.has(key)) {
+            return false;
+        }
+        seen.add(key);
+        return true;
+    });
+    
+    const headings = Array.from(document.querySelectorAll('h1, h2, h3, h4, h5, h6'))
+        .map(heading => ({ level: Number(heading.tagName[1]), text: clean((heading as HTMLElement).innerText || heading.textContent || '') }))
+        .filter(heading => heading.text);
+    
+    const meta: { name: string; content: string }[] = [];
+    if (document.documentElement.lang) {
+        meta.push({ name: 'lang', content: document.documentElement.lang });
+    }
+    const canonical = document.querySelector<HTMLLinkElement>('link[rel="canonical"]');
+    if (canonical?.href) {
+        meta.push({ name: 'canonical', content: canonical.href });
+    }
+    document.querySelectorAll('meta[name], meta[property]').forEach(tag => {
+        const name = tag.getAttribute('property') || tag.getAttribute('name');
+        const content = tag.getAttribute('content');
+        if (name && content) {
+            meta.push({ name, content });
+        }
+    });
+    
+    const describeRoot = (element: Element) => element === document.body ? 'body' : `${element.tagName.toLowerCase()}${element.id ? `#${element.id}` : ''}`;
+    return {
+        markdown,
+        contentRoot: selector ?? `${describeRoot(root)}${skipChrome ? ' (without nav, header, footer and aside)' : ''}`,
+        links: allLinks.slice(0, maxLinks),
+        totalLinks: allLinks.length,
+        headings,
+        meta,
+        html: includeHtml ? (explicitRoot ?? document.documentElement).outerHTML : undefined
+    };
+}
+
+// Shorten extracted text to a maximum length, saying how much was left out
+function truncateText(text: string, maxLength: number): string {
+    return text.length > maxLength ? `${text.slice(0, maxLength)}\n\n[... ${text.length - maxLength} more characters truncated]` : text;
+}
+
+// Accessibility audits run axe-core inside the page; the engine is bundled, so no network is needed
+const accessibilitySeverities = ['minor', 'moderate', 'serious', 'critical'] as const;
+type AccessibilitySeverity = typeof accessibilitySeverities[number];
+
+const severityColors: Record<AccessibilitySeverity, string> = {
+    critical: '#d00000',
+    serious: '#e85d04',
+    moderate: '#d4a000',
+    minor: '#3a86ff'
+};
+
+interface AccessibilityFinding {
+    rule: string;
+    severity: AccessibilitySeverity;
+    help: string;
+    helpUrl: string;
+    elements: { selector: string; summary: string }[];
+}
+
+// Run the axe-core rules on the page, or on the element under a selector
+async function runAccessibilityAudit(page: Page, selector: string | undefined, tags: string[] | undefined): Promise<{ violations: AccessibilityFinding[]; incomplete: number; passes: number }> {
+    await page.evaluate(axe.source);
+    return await page.evaluate(async (context, runTags) => {
+        const results: axe.AxeResults = await (window as any).axe.run(context ?? document, {
+            runOnly: runTags ? { type: 'tag', values: runTags } : undefined,
+            resultTypes: ['violations']
+        });
+        return {
+            violations: results.violations.map(violation => ({
+                rule: violation.id,
+                severity: (violation.impact ?? 'minor') as AccessibilitySeverity,
+                help: violation.help,
+                helpUrl: violation.helpUrl,
+                // Elements inside iframes and shadow roots have nested selectors; use the innermost one
+                elements: violation.nodes.map(node => {
+                    const innermost = node.target[node.target.length - 1];
+                    return {
+                        selector: Array.isArray(innermost) ? innermost[innermost.length - 1] : innermost,
+                        summary: (node.failureSummary ?? '').replace(/\s+/g, ' ').trim()
+                    };
+                })
+            })),
+            incomplete: results.incomplete.length,
+            passes: results.passes.length
+        };
+    }, selector ?? null, tags ?? null);
+}
+
+// Runs in the page: outline elements with a numbered label in the given colour
+function outlineTargets(targets: { selector: string; label: string; color: string }[]) {
+    let drawn = 0;
+    for (const { selector, label, color } of targets) {
+        let element: Element | null = null;
+        try {
+            element = document.querySelector(selector);
+        } catch {
+            // Selectors inside iframes and shadow roots can't be resolved from the document
+        }
+        const rect = element?.getBoundingClientRect();
+        if (!rect || (rect.width === 0 && rect.height === 0)) continue;
+        
+        const left = rect.left + window.scrollX;
+        const top = rect.top + window.scrollY;
+        const outline = document.createElement('div');
+        outline.setAttribute('data-mcp-annotation', '');
+        outline.style.cssText = `position: absolute; z-index: 2147483646; pointer-events: none; box-sizing: border-box; margin: 0;` +
+            `left: ${left}px; top: ${top}px; width: ${rect.width}px; height: ${rect.height}px; border: 3px solid ${color};`;
+        const badge = document.createElement('div');
+        badge.setAttribute('data-mcp-annotation', '');
+        badge.textContent = label;
+        badge.style.cssText = `position: absolute; z-index: 2147483647; pointer-events: none; margin: 0; padding: 1px 5px;` +
+            `left: ${left}px; top: ${top >= 18 ? top - 18 : top}px; background: ${color}; color: #fff; font: bold 12px/16px sans-serif; border-radius: 2px;`;
+        document.documentElement.append(outline, badge);
+        drawn++;
+    }
+    return drawn;
+}
+
+// Format an accessibility tree as an indented outline of roles, names and states
+function formatAccessibilityTree(root: SerializedAXNode, maxNodes: number): string {
+    const lines: string[] = [];
+    let total = 0;
+    const states: (keyof SerializedAXNode)[] = ['level', 'checked', 'pressed', 'selected', 'expanded', 'disabled', 'required', 'invalid', 'readonly', 'focused'];
+    
+    const visit = (node: SerializedAXNode, depth: number) => {
+        total++;
+        if (lines.length < maxNodes) {
+            const details = states
+                .filter(state => node[state] !== undefined && node[state] !== false)
+                .map(state => node[state] === true ? state : `${state}=${node[state]}`);
+            const value = node.value !== undefined && node.value !== '' ? ` value="${node.value}"` : '';
+            lines.push(`${'  '.repeat(depth)}- ${node.role}${node.name ? ` "${node.name}"` : ''}${value}${details.length > 0 ? ` [${details.join(', ')}]` : ''}`);
+        }
+        for (const child of node.children ?? []) {
+            visit(child, depth + 1);
+        }
+    };
+    visit(root, 0);
+    
+    if (total > lines.length) {
+        lines.push(`... ${total - lines.length} more nodes`);
+    }
+    return lines.join('\n');
+}
+
+// Page speed: Core Web Vitals, navigation timing, JS heap and resources, optionally throttled
+const networkThrottlingPresets = {
+    'slow-3g': PredefinedNetworkConditions['Slow 3G'],
+    'fast-3g': PredefinedNetworkConditions['Fast 3G'],
+    'slow-4g': PredefinedNetworkConditions['Slow 4G'],
+    'fast-4g': PredefinedNetworkConditions['Fast 4G']
+};
+type NetworkThrottlingPreset = keyof typeof networkThrottlingPresets;
+
+const performanceOptionsSchema = z.object({
+    cpuThrottling: z.number().min(1).max(20).optional().describe("CPU slowdown factor, e.g. 4 for a mid-range phone (default: 1, no throttling)"),
+    networkThrottling: z.enum(['none', 'slow-3g', 'fast-3g', 'slow-4g', 'fast-4g']).optional().describe("Network throttling preset (default: none)"),
+    filmstripInterval: z.number().int().min(100).optional().describe("Take a viewport screenshot every N milliseconds while the page loads (default: no filmstrip)"),
+    maxFilmstripFrames: z.number().int().min(1).max(50).optional().describe("Maximum number of filmstrip frames (default: 10)")
+});
+
+const performanceSchema = z.union([z.boolean(), performanceOptionsSchema])
+    .describe("Measure page speed: navigation timing, Core Web Vitals (FCP, LCP, CLS, TBT), JS heap and resources, returned as JSON. Pass true, or { cpuThrottling, networkThrottling, filmstripInterval, maxFilmstripFrames }");
+
+interface PerformanceOptions {
+    cpuThrottling: number;
+    networkThrottling: NetworkThrottlingPreset | 'none';
+    filmstripInterval?: number;
+    maxFilmstripFrames: number;
+}
+
+function resolvePerformanceOptions(performance: z.infer<typeof performanceSchema> | undefined): PerformanceOptions | undefined {
+    if (!performance) {
+        return undefined;
+    }
+    const settings = performance === true ? {} : performance;
+    return {
+        cpuThrottling: settings.cpuThrottling ?? 1,
+        networkThrottling: settings.networkThrottling ?? 'none',
+        filmstripInterval: settings.filmstripInterval,
+        maxFilmstripFrames: settings.maxFilmstripFrames ?? 10
+    };
+}
+
+interface FilmstripFrame {
+    time: number;
+    data: string;
+}
+
+interface PerformanceRecording {
+    options: PerformanceOptions;
+    frames: FilmstripFrame[];
+    stopFilmstrip: () => Promise<void>;
+    stop: () => Promise<void>;
+}
+
+interface PageTimings {
+    navigation: {
+        redirect: number;
+        dns: number;
+        connect: number;
+        tls: number;
+        ttfb: number;
+        download: number;
+        domInteractive: number;
+        domContentLoaded: number;
+        load: number | null;
+        transferBytes: number;
+    } | null;
+    fcp: number | null;
+    lcp: number | null;
+    lcpElement: string | null;
+    cls: number;
+    longTasks: { start: number; duration: number }[];
+}
+
+interface PerformanceReport {
+    url: string;
+    throttling: { cpu: number; network: string };
+    navigation: PageTimings['navigation'];
+    webVitals: {
+        fcp: number | null;
+        lcp: number | null;
+        lcpElement: string | null;
+        cls: number;
+        tbt: number;
+        longTasks: { count: number; totalDuration: number; longest: number };
+    };
+    jsHeap: { usedBytes: number; totalBytes: number };
+    dom: { nodes: number; documents: number; eventListeners: number; layouts: number; styleRecalcs: number };
+    mainThread: { scriptDuration: number; taskDuration: number };
+    resources: {
+        count: number;
+        transferBytes: number;
+        failed: number;
+        byType: Record<string, { count: number; transferBytes: number }>;
+    };
+    filmstrip: number[];
+}
+
+// Page function: observe LCP, layout shifts and long tasks from the start of each document
+function observePerformance() {
+    const state = { lcp: null as number | null, lcpElement: null as string | null, cls: 0, longTasks: [] as { start: number; duration: number }[] };
+    (window as any).__mcpPerformance = state;
+    
+    const observe = (type: string, callback: (entries: any[]) => void) => {
+        try {
+            new PerformanceObserver(list => callback(list.getEntries())).observe({ type, buffered: true });
+        } catch {
+            // Entry type not supported by this browser
+        }
+    };
+    
+    observe('largest-contentful-paint', entries => {
+        const entry = entries[entries.length - 1];
+        if (!entry) {
+            return;
+        }
+        state.lcp = entry.startTime;
+        const element = entry.element as Element | null;
+        state.lcpElement = element
+            ? `${element.tagName.toLowerCase()}${element.id ? `#${element.id}` : ''}${Array.from(element.classList).slice(0, 2).map(name => `.${name}`).join('')}`
+            : null;
+    });
+    
+    // CLS is the largest session window of shifts less than 1 s apart and at most 5 s long
+    let windowValue = 0;
+    let windowStart = 0;
+    let lastShift = 0;
+    observe('layout-shift', entries => {
+        for (const entry of entries) {
+            if (entry.hadRecentInput) {
+                continue;
+            }
+            if (entry.startTime - lastShift > 1000 || entry.startTime - windowStart > 5000) {
+                windowValue = 0;
+                windowStart = entry.startTime;
+            }
+            windowValue += entry.value;
+            lastShift = entry.startTime;
+            state.cls = Math.max(state.cls, windowValue);
+        }
+    });
+    
+    observe('longtask', entries => {
+        for (const entry of entries) {
+            state.longTasks.push({ start: entry.startTime, duration: entry.duration });
+        }
+    });
+}
+
+// Page function: read navigation timing and the observed metrics, in milliseconds from navigation start
+function readPageTimings(): PageTimings {
+    const round = (value: number) => Math.round(value);
+    const entry = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+    const paint = performance.getEntriesByName('first-contentful-paint')[0];
+    const state = (window as any).__mcpPerformance ?? { lcp: null, lcpElement: null, cls: 0, longTasks: [] };
+    
+    return {
+        navigation: entry ? {
+            redirect: round(entry.redirectEnd - entry.redirectStart),
+            dns: round(entry.domainLookupEnd - entry.domainLookupStart),
+            connect: round(entry.connectEnd - entry.connectStart),
+            tls: entry.secureConnectionStart > 0 ? round(entry.connectEnd - entry.secureConnectionStart) : 0,
+            ttfb: round(entry.responseStart),
+            download: round(entry.responseEnd - entry.responseStart),
+            domInteractive: round(entry.domInteractive),
+            domContentLoaded: round(entry.domContentLoadedEventEnd),
+            load: entry.loadEventEnd > 0 ? round(entry.loadEventEnd) : null,
+            transferBytes: entry.transferSize
+        } : null,
+        fcp: paint ? round(paint.startTime) : null,
+        lcp: state.lcp === null ? null : round(state.lcp),
+        lcpElement: state.lcpElement,
+        cls: Math.round(state.cls * 10000) / 10000,
+        longTasks: state.longTasks.map((task: { start: number; duration: number }) => ({ start: round(task.start), duration: round(task.duration) }))
+    };
+}
+
+// Throttle the page, observe its metrics and take filmstrip frames until the capture starts
+async function startPerformanceRecording(page: Page, options: PerformanceOptions): Promise<PerformanceRecording> {
+    const frames: FilmstripFrame[] = [];
+    
+    if (options.cpuThrottling > 1) {
+        await page.emulateCPUThrottling(options.cpuThrottling);
+    }
+    if (options.networkThrottling !== 'none') {
+        await page.emulateNetworkConditions(networkThrottlingPresets[options.networkThrottling]);
+    }
+    const script = await page.evaluateOnNewDocument(observePerformance);
+    
+    let filmstripStopped = false;
+    let filmstrip: Promise<void> = Promise.resolve();
+    const { filmstripInterval, maxFilmstripFrames } = options;
+    if (filmstripInterval) {
+        const start = Date.now();
+        filmstrip = (async () => {
+            for (let i = 0; i < maxFilmstripFrames && !filmstripStopped; i++) {
+                const wait = start + i * filmstripInterval - Date.now();
+                if (wait > 0) {
+                    await new Promise(resolve => setTimeout(resolve, wait));
+                }
+                if (filmstripStopped || page.isClosed()) {
+                    break;
+                }
+                // Frames can fail while a navigation replaces the document; skip them
+                const time = Date.now() - start;
+                const data = await page.screenshot({ encoding: 'base64', type: 'jpeg', quality: 60 }).catch(() => null);
+                if (data) {
+                    frames.push({ time, data });
+                }
+            }
+        })();
+    }
+    
+    const stopFilmstrip = async () => {
+        filmstripStopped = true;
+        await filmstrip;
+    };
+    
+    return {
+        options,
+        frames,
+        stopFilmstrip,
+        stop: async () => {
+            await stopFilmstrip();
+            if (page.isClosed()) {
+                return;
+            }
+            await page.removeScriptToEvaluateOnNewDocument(script.identifier).catch(() => {});
+            await page.emulateCPUThrottling(null).catch(() => {});
+            await page.emulateNetworkConditions(null).catch(() => {});
+        }
+    };
+}
+
+// Collect the metrics of a recorded page into a report that can be compared between runs
+async function collectPerformanceReport(page: Page, recording: PerformanceRecording, network: NetworkRecording | undefined): Promise<PerformanceReport> {
+    await recording.stopFilmstrip();
+    
+    // A reused page that was not navigated only has the buffered entries of its current document
+    const observed = await page.evaluate(() => (window as any).__mcpPerformance !== undefined);
+    if (!observed) {
+        await page.evaluate(observePerformance);
+    }
+    const timings = await page.evaluate(readPageTimings);
+    const metrics = await page.metrics();
+    
+    const fcp = timings.fcp ?? 0;
+    const blocking = timings.longTasks.filter(task => task.start >= fcp);
+    const tbt = blocking.reduce((sum, task) => sum + Math.max(0, task.duration - 50), 0);
+    
+    const entries = network?.entries ?? [];
+    const byType: Record<string, { count: number; transferBytes: number }> = {};
+    for (const entry of entries) {
+        const type = byType[entry.resourceType] ??= { count: 0, transferBytes: 0 };
+        type.count++;
+        type.transferBytes += entry.transferBytes;
+    }
+    
+    return {
+        url: page.url(),
+        throttling: { cpu: recording.options.cpuThrottling, network: recording.options.networkThrottling },
+        navigation: timings.navigation,
+        webVitals: {
+            fcp: timings.fcp,
+            lcp: timings.lcp,
+            lcpElement: timings.lcpElement,
+            cls: timings.cls,
+            tbt,
+            longTasks: {
+                count: timings.longTasks.length,
+                totalDuration: timings.longTasks.reduce((sum, task) => sum + task.duration, 0),
+                longest: Math.max(0, ...timings.longTasks.map(task => task.duration))
+            }
+        },
+        jsHeap: { usedBytes: metrics.JSHeapUsedSize ?? 0, totalBytes: metrics.JSHeapTotalSize ?? 0 },
+        dom: {
+            nodes: metrics.Nodes ?? 0,
+            documents: metrics.Documents ?? 0,
+            eventListeners: metrics.JSEventListeners ?? 0,
+            layouts: metrics.LayoutCount ?? 0,
+            styleRecalcs: metrics.RecalcStyleCount ?? 0
+        },
+        mainThread: {
+            scriptDuration: Math.round((metrics.ScriptDuration ?? 0) * 1000),
+            taskDuration: Math.round((metrics.TaskDuration ?? 0) * 1000)
+        },
+        resources: {
+            count: entries.length,
+            transferBytes: entries.reduce((sum, entry) => sum + entry.transferBytes, 0),
+            failed: entries.filter(isFailedRequest).length,
+            byType
+        },
+        filmstrip: recording.frames.map(frame => frame.time)
+    };
+}
+
+// Rate a metric against the Core Web Vitals (and Lighthouse TBT) thresholds
+function rateMetric(value: number, good: number, poor: number): string {
+    return value <= good ? 'good' : value <= poor ? 'needs improvement' : 'poor';
+}
+
+// Summarize a performance report for the text response
+function summarizePerformance(report: PerformanceReport): string {
+    const { navigation, webVitals, jsHeap, resources, throttling } = report;
+    const ms = (value: number | null, good: number, poor: number) => value === null ? 'n/a' : `${value} ms (${rateMetric(value, good, poor)})`;
+    const throttlingDescription = [
+        throttling.cpu > 1 ? `CPU ${throttling.cpu}x slower` : '',
+        throttling.network !== 'none' ? `network ${throttling.network}` : ''
+    ].filter(Boolean).join(', ') || 'none';
+    
+    let summary = `Performance:\nThrottling: ${throttlingDescription}`;
+    summary += `\nTTFB: ${ms(navigation ? navigation.ttfb : null, 800, 1800)}`;
+    summary += `\nFCP: ${ms(webVitals.fcp, 1800, 3000)}`;
+    summary += `\nLCP: ${ms(webVitals.lcp, 2500, 4000)}${webVitals.lcpElement ? ` on ${webVitals.lcpElement}` : ''}`;
+    summary += `\nCLS: ${webVitals.cls} (${rateMetric(webVitals.cls, 0.1, 0.25)})`;
+    summary += `\nTBT: ${ms(webVitals.tbt, 200, 600)}, ${webVitals.longTasks.count} long tasks`;
+    if (navigation) {
+        summary += `\nDOMContentLoaded: ${navigation.domContentLoaded} ms, load: ${navigation.load === null ? 'not finished' : `${navigation.load} ms`}`;
+    }
+    summary += `\nJS heap: ${formatBytes(jsHeap.usedBytes)} used of ${formatBytes(jsHeap.totalBytes)}`;
+    summary += `\nResources: ${resources.count} requests, ${formatBytes(resources.transferBytes)} transferred, ${resources.failed} failed`;
+    return summary;
+}
+
+// The report as JSON, followed by the filmstrip frames in order
+async function buildPerformanceContent(report: PerformanceReport, recording: PerformanceRecording, output: CaptureOutput, url: string): Promise<CaptureContent[]> {
+    const content: CaptureContent[] = [{ type: "text", text: `Performance report (JSON):\n${JSON.stringify(report, null, 2)}` }];
+    for (const frame of recording.frames) {
+        content.push({ type: "text", text: `Filmstrip frame at ${frame.time} ms` });
+        content.push(...await buildCaptureContent(output, frame.data, 'image/jpeg', url, `filmstrip-${frame.time}ms`));
+    }
+    return content;
+}
+
+function formatSelectorMatches(label: string, matches: SelectorMatchCount[]): string {
+    if (matches.length === 0) {
+        return '';
+    }
+    const lines = matches.map(({ selector, count, error }) =>
+        `\n  - ${selector}: ${error ?? `${count} ${count === 1 ? 'element' : 'elements'}`}${!error && count === 0 ? ' (nothing matched!)' : ''}`
+    );
+    return `\n${label}:${lines.join('')}`;
+}
+
+// Options shared by every tool that navigates a page before capturing it
+interface CapturePageOptions {
+    url: string;
+    width?: number;
+    height?: number;
+    waitFor: 'load' | 'domcontentloaded' | 'networkidle0' | 'networkidle2';
+    delay: number;
+    useSavedAuth: boolean;
+    reuseAuthPage: boolean;
+    useDefaultBrowser: boolean;
+    visibleBrowser: boolean;
+    actions?: Action[];
+    device?: DeviceProfile;
+    sessionId?: string;
+    authProfile?: string;
+    recordNetwork?: boolean;
+    recordPageLog?: boolean;
+    requestRules?: RequestRules;
+    stable?: StableOptions;
+    performance?: PerformanceOptions;
+    screencastScale?: number;
+    emulation?: Emulation;
+    stealth?: StealthProfile;
+    userAgent?: string;
+    hide?: string[];
+    mask?: string[];
+    maskColor?: string;
+}
+
+interface CapturePage {
+    page: Page;
+    shouldClosePage: boolean;
+    actionResults: ActionResult[];
+    response: HTTPResponse | null;
+    network?: NetworkRecording;
+    pageLog?: PageLogRecording;
+    interception?: RequestInterception;
+    performance?: PerformanceRecording;
+    screencast?: ScreencastRecording;
+    stability: string;
+    redactions: string;
+    applyMasks: () => Promise<void>;
+}
+
+// Open a page (or reuse the authenticated one), apply saved auth and navigate to the URL.
+// With a session, the page is opened in the session's browser context instead.
+async function openCapturePage(options: CapturePageOptions): Promise<CapturePage> {
+    const { url, width, height, waitFor, delay, useSavedAuth, reuseAuthPage, useDefaultBrowser, visibleBrowser, actions, device, sessionId, authProfile = 'default', recordNetwork, recordPageLog, requestRules, stable, performance, screencastScale, emulation, stealth = 'basic', userAgent, hide = [], mask = [], maskColor = '#000000' } = options;
+    const session = sessionId ? getSession(sessionId) : null;
+    const reusablePage = session ? session.persistentPage : persistentPage;
+    
+    let page: Page;
+    let shouldClosePage = true;
+    let network: NetworkRecording | undefined;
+    let pageLog: PageLogRecording | undefined;
+    let interception: RequestInterception | undefined;
+    let stableScript: { identifier: string } | undefined;
+    let performanceRecording: PerformanceRecording | undefined;
+    let response: HTTPResponse | null = null;
+    let screencast: ScreencastRecording | undefined;
+    
+    // Start the requested recorders and request rules before navigating
+    const attachPageHooks = async (target: Page) => {
+        if (emulation) {
+            await applyEmulation(target, emulation, url);
+        }
+        if (recordNetwork) {
+            network = await startNetworkRecording(target);
+        }
+        if (recordPageLog) {
+            pageLog = await startPageLogRecording(target);
+        }
+        if (requestRules) {
+            interception = await applyRequestRules(target, requestRules, url);
+        }
+        if (stable) {
+            stableScript = await target.evaluateOnNewDocument(stabilizePage, stable.time, stable.seed);
+        }
+        if (performance) {
+            performanceRecording = await startPerformanceRecording(target, performance);
+        }
+        if (screencastScale !== undefined) {
+            screencast = await startScreencast(target, screencastScale);
+        }
+    };
+    
+    // Detach everything attachPageHooks started, when the capture fails before the page is handed back
+    const stopPageHooks = async (target: Page) => {
+        await network?.stop();
+        await pageLog?.stop();
+        await interception?.stop();
+        await performanceRecording?.stop();
+        await screencast?.stop();
+        if (stableScript) {
+            await target.removeScriptToEvaluateOnNewDocument(stableScript.identifier).catch(() => {});
+        }
+    };
+    
+    // Check if we should reuse the authenticated page
+    if (reuseAuthPage && reusablePage && !reusablePage.isClosed()) {
+        page = reusablePage;
+        shouldClosePage = false;
+        
+        try {
+            await attachPageHooks(page);
+            
+            // Navigate to the new URL if different
+            const currentUrl = page.url();
+            if (currentUrl !== url) {
+                response = await page.goto(url, {
+                    waitUntil: waitFor,
+                    timeout: 30000
+                });
+            } else {
+                if (stable) {
+                    await page.evaluate(stabilizePage, stable.time, stable.seed);
+                }
+                if (emulation?.locale) {
+                    await page.evaluate(overrideNavigatorLanguages, getLocaleLanguages(emulation.locale));
+                }
+            }
+        } catch (error) {
+            await stopPageHooks(page);
+            await pageEmulationResets.get(page)?.();
+            throw error;
+        }
+    } else {
+        // Create a new page, in the session's context or in the browser for the requested mode
+        if (session) {
+            page = await session.context.newPage();
+        } else {
+            const browserInstance = await initBrowser(!visibleBrowser, useDefaultBrowser && visibleBrowser);
+            page = await browserInstance.newPage();
+        }
+        
+        try {
+            // Viewport: the device profile, then explicit width and height, then the session's viewport.
+            // A custom user agent takes precedence over the device profile's.
+            const profile = device ?? (width === undefined && height === undefined ? session?.viewport : undefined);
+            const { name, userAgent: profileUserAgent, ...viewport }: DeviceProfile = profile ?? { name: 'default', width: width ?? 1920, height: height ?? 1080 };
+            await setupPage(page, {
+                url,
+                stealth,
+                userAgent: userAgent ?? profileUserAgent,
+                authProfile: useSavedAuth ? authProfile : undefined,
+                viewport
+            });
+            
+            await attachPageHooks(page);
+            
+            // Navigate to the URL
+            response = await page.goto(url, {
+                waitUntil: waitFor,
+                timeout: 30000
+            });
+        } catch (error) {
+            await page.close().catch(() => {});
+            throw error;
+        }
+        
+        // A session keeps the first page opened with reuseAuthPage for later calls
+        if (session && reuseAuthPage) {
+            session.persistentPage = page;
+            shouldClosePage = false;
+        }
+    }
+    
+    // Optional delay
+    if (delay > 0) {
+        await new Promise(resolve => setTimeout(resolve, delay));
+    }
+    
+    let actionResults: ActionResult[] = [];
+    let redactions = '';
+    let stability = '';
+    try {
+        // Run interaction steps before capture
+        if (actions) {
+            actionResults = await runActions(page, actions);
+        }
+        
+        // Hide elements before the layout settles
+        if (hide.length > 0) {
+            const { hidden } = await page.evaluate(redactPage, hide, [], maskColor);
+            redactions += formatSelectorMatches('Hidden', hidden);
+        }
+        
+        // Let fonts and layout settle, then stop stabilizing later documents of a reused page
+        if (stable) {
+            stability = await waitForStablePage(page, stable).catch(error =>
+                `\nStable mode: could not wait for a stable layout (${error instanceof Error ? error.message : String(error)})`
+            );
+            if (stableScript) {
+                await page.removeScriptToEvaluateOnNewDocument(stableScript.identifier).catch(() => {});
+            }
+        }
+        
+    } catch (error) {
+        // Never hand back a page whose hidden elements could not be applied, nor leave its recorders attached
+        await stopPageHooks(page);
+        await releaseCapturePage(page, shouldClosePage);
+        throw error;
+    }
+    
+    const capture: CapturePage = {
+        page, shouldClosePage, actionResults, response, network, pageLog, interception, performance: performanceRecording, screencast, stability, redactions,
+        // Mask right before each screenshot, on the layout it captures: the previous masks are replaced,
+        // and elements that scrolled, moved or loaded since are covered too. A failure throws, so nothing
+        // is captured unmasked.
+        applyMasks: async () => {
+            if (mask.length === 0) return;
+            const { masked } = await page.evaluate(redactPage, hide, mask, maskColor);
+            capture.redactions = redactions + formatSelectorMatches('Masked', masked);
+        }
+    };
+    return capture;
+}
+
+// Close a capture page unless it is a persistent authenticated page, which is restored instead,
+// including its emulation
+async function releaseCapturePage(page: Page | null, shouldClosePage: boolean) {
+    if (!page || page.isClosed()) {
+        return;
+    }
+    if (shouldClosePage && !isPersistentPage(page)) {
+        await page.close().catch(() => {});
+    } else {
+        await page.evaluate(undoCaptureChanges).catch(() => {});
+        await pageEmulationResets.get(page)?.();
+        pageEmulationResets.delete(page);
+    }
+}
+
+// Get the file path for a named visual regression baseline
+function getBaselinePath(name: string): string {
+    const safeName = name.replace(/[^a-zA-Z0-9._-]/g, '_');
+    return path.join(baselinesDir, `${safeName}.png`);
+}
+
+// Load a baseline image, or null if it has not been recorded yet
+async function loadBaseline(name: string): Promise<PNG | null> {
+    try {
+        const data = await fsPromises.readFile(getBaselinePath(name));
+        return PNG.sync.read(data);
+    } catch {
+        return null;
+    }
+}
+
+// Save a PNG capture as the baseline for a name
+async function saveBaseline(name: string, data: Buffer) {
+    await fsPromises.mkdir(baselinesDir, { recursive: true });
+    await fsPromises.writeFile(getBaselinePath(name), data);
+}
+
+// Copy an image onto a transparent canvas so two captures of different sizes can be compared
+function padImage(image: PNG, width: number, height: number): PNG {
+    if (image.width === width && image.height === height) {
+        return image;
+    }
+    const padded = new PNG({ width, height });
+    PNG.bitblt(image, padded, 0, 0, image.width, image.height, 0, 0);
+    return padded;
+}
+
+// How a tool returns its captures: inline base64 content or files saved to disk
+type CaptureOutput = 'inline' | 'file';
+
+type CaptureContent =
+    | { type: "text"; text: string }
+    | { type: "image"; data: string; mimeType: string }
+    | { type: "resource"; resource: { uri: string; mimeType: string; blob: string } };
+
+const captureMimeTypes: Record<string, string> = {
+    '.png': 'image/png',
+    '.jpeg': 'image/jpeg',
+    '.jpg': 'image/jpeg',
+    '.webp': 'image/webp',
+    '.pdf': 'application/pdf',
+    '.har': 'application/json',
+    '.html': 'text/html',
+    '.gif': 'image/gif'
+};
+
+// Get the MCP resource URI for a saved capture
+function getCaptureUri(fileName: string): string {
+    return `screenshot://captures/${encodeURIComponent(fileName)}`;
+}
+
+// Build a predictable capture file name: <UTC timestamp>_<host>_<label>.<extension>
+function buildCaptureFileName(url: string, label: string, extension: string): string {
+    const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace('.', '');
+    const safeLabel = label.replace(/[^a-zA-Z0-9-]+/g, '-');
+    return `${timestamp}_${getDomainFromUrl(url)}_${safeLabel}.${extension}`;
+}
+
+// List saved captures, newest first
+async function listCaptures(): Promise<{ fileName: string; filePath: string; size: number; modified: Date }[]> {
+    let files: string[];
+    try {
+        files = await fsPromises.readdir(capturesDir);
+    } catch {
+        return [];
+    }
+    
+    const captures = [];
+    for (const fileName of files) {
+        if (!captureMimeTypes[path.extname(fileName)]) continue;
+        const filePath = path.join(capturesDir, fileName);
+        try {
+            const stats = await fsPromises.stat(filePath);
+            captures.push({ fileName, filePath, size: stats.size, modified: stats.mtime });
+        } catch {
+            // File removed while listing
+        }
+    }
+    return captures.sort((a, b) => b.modified.getTime() - a.modified.getTime());
+}
+
+// Delete captures older than the maximum age, then the oldest ones beyond the maximum count.
+// The kept files, such as the screenshots a contact sheet links to, are never deleted.
+async function pruneCaptures(keep: Set<string> = new Set()) {
+    const captures = (await listCaptures()).filter(capture => !keep.has(capture.fileName));
+    const oldestAllowed = Date.now() - captureRetention.maxAgeHours * 60 * 60 * 1000;
+    const maxFiles = Math.max(0, captureRetention.maxFiles - keep.size);
+    
+    for (const [index, capture] of captures.entries()) {
+        if (index >= maxFiles || capture.modified.getTime() < oldestAllowed) {
+            await fsPromises.unlink(capture.filePath).catch(() => {});
+        }
+    }
+}
+
+// Write a file to the captures directory and announce it as a new resource. Files that belong
+// together, such as a batch and its contact sheet, skip pruning and are pruned once at the end.
+async function saveCaptureFile(fileName: string, data: Buffer | string, prune: boolean = true): Promise<string> {
+    const filePath = path.join(capturesDir, fileName);
+    
+    await fsPromises.mkdir(capturesDir, { recursive: true });
+    await fsPromises.writeFile(filePath, data);
+    if (prune) {
+        await pruneCaptures();
+    }
+    
+    if (server.isConnected()) {
+        server.sendResourceListChanged();
+    }
+    
+    return filePath;
+}
+
+// Save the HAR of a recording to the captures directory and describe it
+async function saveNetworkRecording(network: NetworkRecording, url: string, pageTitle: string): Promise<string> {
+    await network.stop();
+    const fileName = buildCaptureFileName(url, 'network', 'har');
+    const filePath = await saveCaptureFile(fileName, JSON.stringify(buildHar(network.entries, pageTitle), null, 2));
+    return `${summarizeNetwork(network.entries)}\nHAR saved to: ${filePath}\nHAR resource: ${getCaptureUri(fileName)}`;
+}
+
+// Return a capture inline (as an image, or an embedded resource for documents such as PDFs),
+// or save it to the captures directory and return its location
+async function buildCaptureContent(output: CaptureOutput, data: string, mimeType: string, url: string, label: string): Promise<CaptureContent[]> {
+    const extension = mimeType.split('/')[1];
+    const fileName = buildCaptureFileName(url, label, extension);
+    
+    if (output === 'inline') {
+        if (mimeType.startsWith('image/')) {
+            return [{ type: "image", data, mimeType }];
+        }
+        return [{ type: "resource", resource: { uri: `screenshot://render/${encodeURIComponent(fileName)}`, mimeType, blob: data } }];
+    }
+    
+    const buffer = Buffer.from(data, 'base64');
+    const filePath = await saveCaptureFile(fileName, buffer);
+    
+    return [{
+        type: "text",
+        text: `Saved to: ${filePath}\nResource: ${getCaptureUri(fileName)}\nMIME type: ${mimeType}\nSize: ${buffer.length} bytes`
+    }];
+}
+
+// Batch capture: pages from a URL list, a sitemap or a same-origin crawl
+interface BatchPage {
+    url: string;
+    depth: number;
+}
+
+interface BatchResult {
+    url: string;
+    depth: number;
+    status: number | null;
+    title: string;
+    finalUrl?: string;
+    filePath?: string;
+    fileName?: string;
+    error?: string;
+}
+
+// Run a task for every item with at most `limit` running at once, keeping the results in item order
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await task(items[index], index);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+}
+
+function decodeXmlEntities(value: string): string {
+    return value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+}
+
+// Read the page URLs of a sitemap, following nested sitemaps of a sitemap index
+async function fetchSitemapUrls(sitemapUrl: string, limit: number, visited: Set<string> = new Set()): Promise<string[]> {
+    if (visited.has(sitemapUrl) || limit <= 0) {
+        return [];
+    }
+    visited.add(sitemapUrl);
+    
+    const response = await fetch(sitemapUrl, { signal: AbortSignal.timeout(30000) });
+    if (!response.ok) {
+        throw new Error(`Could not fetch sitemap ${sitemapUrl}: HTTP ${response.status}`);
+    }
+    const xml = await response.text();
+    const locations = [...xml.matchAll(/<loc>\s*(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?\s*<\/loc>/g)]
+        .map(match => decodeXmlEntities(match[1].trim()));
+    
+    if (!/<sitemapindex[\s>]/.test(xml)) {
+        return locations.slice(0, limit);
+    }
+    const urls: string[] = [];
+    for (const location of locations) {
+        if (urls.length >= limit) break;
+        urls.push(...await fetchSitemapUrls(location, limit - urls.length, visited));
+    }
+    return urls;
+}
+
+// Normalize a link for crawling: same origin as the start page, no fragment, and not a download
+function normalizeCrawlLink(href: string, origin: string): string | null {
+    let link: URL;
+    try {
+        link = new URL(href);
+    } catch {
+        return null;
+    }
+    if (link.origin !== origin || /\.(pdf|zip|gz|png|jpe?g|gif|svg|webp|ico|mp3|mp4|webm|css|js|json|xml|txt)$/i.test(link.pathname)) {
+        return null;
+    }
+    link.hash = '';
+    return link.href;
+}
+
+// Check a URL against include and exclude patterns (regular expressions)
+function matchesUrlPatterns(url: string, include: RegExp[], exclude: RegExp[]): boolean {
+    return (include.length === 0 || include.some(pattern => pattern.test(url))) && !exclude.some(pattern => pattern.test(url));
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+// An HTML index of the batch with a thumbnail per page, linking the screenshots next to it
+function buildContactSheet(source: string, results: BatchResult[]): string {
+    const cards = results.map((result, index) => {
+        const caption = `<div class="caption"><strong>${index + 1}. ${escapeHtml(result.title || '(untitled)')}</strong>` +
+            `<span class="status${result.error || (result.status ?? 0) >= 400 ? ' failed' : ''}">${result.error ? 'failed' : result.status ?? 'no response'}</span>` +
+            `<a href="${escapeHtml(result.url)}">${escapeHtml(result.url)}</a></div>`;
+        const preview = result.fileName
+            ? `<a href="${escapeHtml(encodeURIComponent(result.fileName))}"><img src="${escapeHtml(encodeURIComponent(result.fileName))}" loading="lazy" alt=""></a>`
+            : `<div class="error">${escapeHtml(result.error ?? 'No screenshot')}</div>`;
+        return `<figure>${preview}${caption}</figure>`;
+    });
+    
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Contact sheet: ${escapeHtml(source)}</title>
+<style>
+body { margin: 24px; font: 14px/1.4 system-ui, sans-serif; background: #f4f4f5; color: #18181b; }
+main { display: grid; grid-template-columns: repeat(auto-fill, minmax(280px, 1fr)); gap: 16px; }
+figure { margin: 0; background: #fff; border: 1px solid #d4d4d8; border-radius: 6px; overflow: hidden; }
+img, .error { display: block; width: 100%; height: 220px; object-fit: cover; object-position: top; border-bottom: 1px solid #d4d4d8; }
+.error { box-sizing: border-box; padding: 12px; color: #b91c1c; overflow: auto; }
+.caption { display: grid; gap: 4px; padding: 8px 10px; word-break: break-all; }
+.status { font-size: 12px; color: #15803d; }
+.status.failed { color: #b91c1c; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(source)}</h1>
+<p>${results.length} pages captured ${escapeHtml(new Date().toISOString())}</p>
+<main>
+${cards.join('\n')}
+</main>
+</body>
+</html>
+`;
+}
+
+// Function to clean up resources
+async function cleanupBrowser() {
+    for (const session of sessions.values()) {
+        await session.context.close().catch(() => {});
+    }
+    sessions.clear();
+    
+    for (const browser of browsers.values()) {
+        // Clean up user data directory if it exists (for default browser)
+        const userDataDir = (browser as any).__userDataDir;
+        
+        try {
+            await browser.close();
+        } catch (error) {
+            console.error('Error closing browser:', error);
+        }
+        
+        // Clean up user data directory if it exists
+        if (userDataDir) {
+            try {
+                await fsPromises.rm(userDataDir, { recursive: true, force: true });
+            } catch (error) {
+                console.error('Error cleaning up user data directory:', error);
+            }
+        }
+    }
+    
+    browsers.clear();
+    persistentPage = null;
+}
+
+// Cleanup browser on exit
+process.on('exit', () => {
+    for (const browser of browsers.values()) {
+        // Can't use async here, so just do a sync cleanup of what we can
+        try {
+            browser.close().catch(() => {});
+        } catch (e) {
+            // Ignore errors on exit
+        }
+    }
+});
+
+process.on('SIGINT', async () => {
+    await cleanupBrowser();
+    process.exit(0);
+});
+
+process.on('SIGTERM', async () => {
+    await cleanupBrowser();
+    process.exit(0);
+});
+
+// Open a named browser session
+server.tool(
+    "open-session",
+    "Opens a named browser session with its own browser context, cookies, viewport and persistent page. Pass its sessionId to other tools to run several workflows side by side.",
+    {
+        sessionId: z.string().regex(/^[a-zA-Z0-9._-]+$/).optional().describe("Name for the session (letters, digits, dot, dash and underscore). Generated if not provided."),
+        visibleBrowser: z.boolean().optional().default(false).describe("Whether to show the browser window (non-headless mode)"),
+        useDefaultBrowser: z.boolean().optional().default(false).describe("Whether to use the system's default browser instead of Puppeteer's bundled Chromium (requires visibleBrowser)"),
+        width: z.number().optional().describe("Default viewport width in pixels for pages in this session (default: 1920)"),
+        height: z.number().optional().describe("Default viewport height in pixels for pages in this session (default: 1080)"),
+        device: deviceProfileSchema.optional().describe("Default device profile for pages in this session, in place of width and height")
+    },
+    async ({ sessionId, visibleBrowser, useDefaultBrowser, width, height, device }) => {
+        try {
+            const id = sessionId ?? `session-${Date.now().toString(36)}`;
+            if (sessions.has(id)) {
+                throw new Error(`Session ${id} is already open`);
+            }
+            
+            const headless = !visibleBrowser;
+            const mode = getBrowserMode(headless, useDefaultBrowser && visibleBrowser);
+            const browserInstance = await initBrowser(headless, useDefaultBrowser && visibleBrowser);
+            const context = await browserInstance.createBrowserContext();
+            
+            const viewport = device
+                ? resolveDeviceProfile(device)
+                : { name: 'custom', width: width ?? 1920, height: height ?? 1080 };
+            
+            sessions.set(id, {
+                id,
+                mode,
+                context,
+                viewport,
+                persistentPage: null,
+                createdAt: new Date()
+            });
+            
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Session opened!\n\nSession ID: ${id}\nBrowser mode: ${mode}\nViewport: ${describeDeviceProfile(viewport)}\n\nPass sessionId: "${id}" to other tools to use this session.`
+                    }
+                ],
+            };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return {
+                isError: true,
+                content: [
+                    {
+                        type: "text",
+                        text: `Error opening session: ${errorMessage}`,
+                    },
+                ],
+            };
+        }
+    }
+);
+
+// List open browser sessions
+server.tool(
+    "list-sessions",
+    "Lists the open named browser sessions",
+    {},
+    async () => {
+        try {
+            const lines: string[] = [];
+            for (const id of [...sessions.keys()]) {
+                let session: BrowserSession;
+                try {
+                    session = getSession(id);
+                } catch {
+                    // Session dropped because its browser is gone
+                    continue;
+                }
+                
+                const pages = await session.context.pages();
+                const persistentUrl = session.persistentPage && !session.persistentPage.isClosed()
+                    ? session.persistentPage.url()
+                    : 'none';
+                lines.push(`- ${session.id}\n  Browser mode: ${session.mode}\n  Viewport: ${session.viewport ? describeDeviceProfile(session.viewport) : 'default'}\n  Open pages: ${pages.length}\n  Persistent page: ${persistentUrl}\n  Opened: ${session.createdAt.toISOString()}`);
+            }
+            
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: lines.length > 0 ? `Open sessions (${lines.length}):\n\n${lines.join('\n')}` : 'No open sessions'
+                    }
+                ],
+            };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return {
+                isError: true,
+                content: [
+                    {
+                        type: "text",
+                        text: `Error listing sessions: ${errorMessage}`,
+                    },
+                ],
+            };
+        }
+    }
+);
+
+// Close a browser session
+server.tool(
+    "close-session",
+    "Closes a named browser session and all of its pages",
+    {
+        sessionId: z.string().describe("ID of the session to close"),
+    },
+    async ({ sessionId }) => {
+        try {
+            const session = sessions.get(sessionId);
+            if (!session) {
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: `No open session with ID: ${sessionId}`
+                        }
+                    ],
+                };
+            }
+            
+            sessions.delete(sessionId);
+            await session.context.close().catch(() => {});
+            
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Session closed: ${sessionId}`
+                    }
+                ],
+            };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return {
+                isError: true,
+                content: [
+                    {
+                        type: "text",
+                        text: `Error closing session: ${errorMessage}`,
+                    },
+                ],
+            };
+        }
+    }
+);
+
+// Rules that decide when a manual login has succeeded
+const successRuleSchema = z.discriminatedUnion('type', [
+    z.object({
+        type: z.literal('url-matches'),
+        pattern: z.string().describe("Regular expression the page URL must match")
+    }),
+    z.object({
+        type: z.literal('selector-present'),
+        selector: z.string().describe("CSS selector that must be on the page")
+    }),
+    z.object({
+        type: z.literal('selector-absent'),
+        selector: z.string().describe("CSS selector that must no longer be on the page")
+    }),
+    z.object({
+        type: z.literal('cookie-set'),
+        name: z.string().describe("Name of the cookie that must be set"),
+        domain: z.string().optional().describe("Domain the cookie must belong to (subdomains included)")
+    }),
+    z.object({
+        type: z.literal('response-status'),
+        urlPattern: z.string().describe("Regular expression the response URL must match"),
+        status: z.number().int().optional().describe("Status the response must have (default: any 2xx status)")
+    }),
+    z.object({
+        type: z.literal('left-login-page')
+    }).describe("The page navigated away from the login page and is back on its site (registrable domain) without a password field, e.g. after an SSO round trip (the default)")
+]);
+
+type SuccessRule = z.infer<typeof successRuleSchema>;
+
+function describeSuccessRule(rule: SuccessRule): string {
+    switch (rule.type) {
+        case 'url-matches':
+            return `URL matches /${rule.pattern}/`;
+        case 'selector-present':
+            return `selector present: ${rule.selector}`;
+        case 'selector-absent':
+            return `selector absent: ${rule.selector}`;
+        case 'cookie-set':
+            return `cookie set: ${rule.name}${rule.domain ? ` (${rule.domain})` : ''}`;
+        case 'response-status':
+            return `response ${rule.status ?? '2xx'} from /${rule.urlPattern}/`;
+        case 'left-login-page':
+            return 'left the login page and returned to its site';
+    }
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Build the success rules of a login: explicit rules, the legacy successIndicator, or
+// by default leaving the login page and coming back to its site
+function resolveSuccessRules(rules: SuccessRule[] | undefined, successIndicator: string | undefined): SuccessRule[] {
+    if (rules && rules.length > 0) {
+        return rules;
+    }
+    if (successIndicator) {
+        return successIndicator.startsWith('http') || successIndicator.includes('/')
+            ? [{ type: 'url-matches', pattern: escapeRegExp(successIndicator) }]
+            : [{ type: 'selector-present', selector: successIndicator }];
+    }
+    return [{ type: 'left-login-page' }];
+}
+
+// Watch a page for the success rules of a login, starting on the page the login URL landed on.
+// Returns the rules that currently hold.
+function watchSuccessRules(page: Page, rules: SuccessRule[], loginUrl: string) {
+    const compiled = rules.map(rule => ({
+        rule,
+        pattern: rule.type === 'url-matches' ? new RegExp(rule.pattern)
+            : rule.type === 'response-status' ? new RegExp(rule.urlPattern)
+            : null
+    }));
+    
+    // Responses are only seen once, so remember which response rules have fired
+    const seenResponses = new Set<SuccessRule>();
+    const onResponse = (response: HTTPResponse) => {
+        for (const { rule, pattern } of compiled) {
+            if (rule.type !== 'response-status' || !pattern!.test(response.url())) continue;
+            const status = response.status();
+            if (rule.status !== undefined ? status === rule.status : status >= 200 && status < 300) {
+                seenResponses.add(rule);
+            }
+        }
+    };
+    page.on('response', onResponse);
+    
+    // Navigations are only seen once too, so follow them from the page the watch starts on
+    const loginPage = createLoginPageTracker(loginUrl);
+    loginPage.navigated(page.url());
+    const onNavigated = (frame: Frame) => {
+        if (frame === page.mainFrame()) {
+            loginPage.navigated(frame.url());
+        }
+    };
+    page.on('framenavigated', onNavigated);
+    
+    const isSatisfied = async (rule: SuccessRule, pattern: RegExp | null): Promise<boolean> => {
+        try {
+            switch (rule.type) {
+                case 'url-matches':
+                    return pattern!.test(page.url());
+                case 'selector-present':
+                    return (await page.$(rule.selector)) !== null;
+                case 'selector-absent':
+                    return (await page.$(rule.selector)) === null;
+                case 'cookie-set': {
+                    const cookies = await page.browserContext().cookies();
+                    const domain = rule.domain?.replace(/^\./, '');
+                    return cookies.some(cookie => {
+                        const cookieDomain = cookie.domain.replace(/^\./, '');
+                        return cookie.name === rule.name &&
+                            !isCookieExpired(cookie) &&
+                            (!domain || cookieDomain === domain || cookieDomain.endsWith(`.${domain}`));
+                    });
+                }
+                case 'response-status':
+                    return seenResponses.has(rule);
+                case 'left-login-page': {
+                    const showsPasswordField = await page.evaluate(() =>
+                        Array.from(document.querySelectorAll<HTMLInputElement>('input[type="password"]'))
+                            .some(input => input.getClientRects().length > 0));
+                    return loginPage.isDone(page.url(), showsPasswordField);
+                }
+            }
+        } catch {
+            // The page is navigating, check again later
+            return false;
+        }
+    };
+    
+    return {
+        check: async (): Promise<SuccessRule[]> => {
+            const results = await Promise.all(compiled.map(({ rule, pattern }) => isSatisfied(rule, pattern)));
+            return compiled.filter((_, index) => results[index]).map(({ rule }) => rule);
+        },
+        stop: () => {
+            page.off('response', onResponse);
+            page.off('framenavigated', onNavigated);
+        }
+    };
+}
+
+// Manual logins waiting in login-and-wait, keyed by login ID
+interface PendingLogin {
+    id: string;
+    url: string;
+    authProfile: string;
+    sessionId?: string;
+    startedAt: Date;
+    deadline: Date;
+    complete: () => void;
+    cancel: (reason: string) => void;
+}
+
+const pendingLogins = new Map<string, PendingLogin>();
+
+function describePendingLogins(): string {
+    if (pendingLogins.size === 0) {
+        return 'No logins are waiting';
+    }
+    const lines = [...pendingLogins.values()].map(login =>
+        `- ${login.id}\n  URL: ${login.url}\n  Auth profile: ${login.authProfile}${login.sessionId ? `\n  Session: ${login.sessionId}` : ''}\n  Started: ${login.startedAt.toISOString()}\n  Times out: ${login.deadline.toISOString()}`
+    );
+    return `Pending logins (${pendingLogins.size}):\n\n${lines.join('\n')}`;
+}
+
+// Register the login-and-wait tool
+server.tool(
+    "login-and-wait",
+    "Opens a webpage in a visible browser window for manual login, waits for user to complete login, then saves cookies to an encrypted auth profile. Plaintext cookie files saved by earlier versions are not read, so log in again to recreate those sessions",
+    {
+        url: z.string().url().describe("The URL of the login page"),
+        waitMinutes: z.number().optional().default(3).describe("Maximum minutes to wait for login (default: 3)"),
+        successIndicator: z.string().optional().describe("Deprecated, use successRules. CSS selector, or URL substring if it contains \"/\", that indicates successful login"),
+        successRules: z.array(successRuleSchema).optional().describe("Rules that indicate successful login: url-matches, selector-present, selector-absent, cookie-set, response-status or left-login-page. Default: left-login-page, the page navigates away from the login page and is back on its site, outside the login path and without a password field. A login page that stays on its URL after login needs a rule such as selector-absent or cookie-set"),
+        successMatch: z.enum(['all', 'any']).optional().default('any').describe("Whether all success rules or any one of them must hold (default: any)"),
+        useDefaultBrowser: z.boolean().optional().default(true).describe("Whether to use the system's default browser instead of Puppeteer's bundled Chromium"),
+        sessionId: z.string().optional().describe("Named session from open-session to log in with; the session must have been opened with visibleBrowser: true"),
+        authProfile: z.string().regex(authProfileNamePattern).optional().default('default').describe("Name of the auth profile to load and save the login into (default: \"default\")"),
+        loginId: z.string().regex(/^[a-zA-Z0-9._-]+$/).optional().describe("ID for this login, used with signal-login-complete and cancel-login. Generated if not provided."),
+        stealth: stealthProfileSchema.optional().default('basic'),
+        userAgent: userAgentSchema.optional()
+    },
+    async ({ url, waitMinutes, successIndicator, successRules, successMatch, useDefaultBrowser, sessionId, authProfile, loginId, stealth, userAgent }, extra) => {
+        let page: Page | null = null;
+        const id = loginId ?? `login-${crypto.randomBytes(4).toString('hex')}`;
+        
+        try {
+            if (pendingLogins.has(id)) {
+                throw new Error(`A login with ID ${id} is already waiting`);
+            }
+            
+            if (sessionId) {
+                // Log in inside the session's own browser context and keep its page
+                const session = getSession(sessionId);
+                if (session.mode === 'headless') {
+                    throw new Error(`Session ${sessionId} is headless. Open a session with visibleBrowser: true for manual login.`);
+                }
+                if (!session.persistentPage || session.persistentPage.isClosed()) {
+                    session.persistentPage = await session.context.newPage();
+                }
+                page = session.persistentPage;
+            } else {
+                // Initialize browser in non-headless mode with default browser option
+                const browserInstance = await initBrowser(false, useDefaultBrowser);
+                
+                // Create or reuse persistent page
+                if (!persistentPage || persistentPage.isClosed()) {
+                    persistentPage = await browserInstance.newPage();
+                }
+                page = persistentPage;
+            }
+            
+            // Load the existing auth profile if available, then apply the stealth profile for login
+            await setupPage(page, { url, stealth, userAgent, authProfile });
+            
+            // Navigate to the URL
+            await page.goto(url, {
+                waitUntil: 'networkidle2',
+                timeout: 30000
+            });
+            
+            const startTime = Date.now();
+            const maxWaitTime = waitMinutes * 60 * 1000;
+            const progressToken = extra._meta?.progressToken;
+            
+            // Report progress to clients that asked for it
+            const sendProgress = (message: string) => {
+                if (progressToken === undefined) return;
+                extra.sendNotification({
+                    method: "notifications/progress",
+                    params: {
+                        progressToken,
+                        progress: Math.min(Date.now() - startTime, maxWaitTime) / 1000,
+                        total: maxWaitTime / 1000,
+                        message
+                    }
+                }).catch(() => {});
+            };
+            
+            // Start from the page the login URL redirected to if it stayed on the same site
+            const landedUrl = new URL(page.url()).origin === new URL(url).origin ? page.url() : url;
+            const rules = resolveSuccessRules(successRules, successIndicator);
+            const successWatcher = watchSuccessRules(page, rules, landedUrl);
+            
+            // Wait for login: the success rules, a signal-login-complete call for this login,
+            // the timeout, or cancellation
+            const browserWindow = sessionId ? `session ${sessionId}` : useDefaultBrowser ? 'default' : 'Puppeteer';
+            const outcome = await new Promise<string>((resolve, reject) => {
+                let progressInterval: NodeJS.Timeout | undefined;
+                let checking = false;
+                
+                const cleanup = () => {
+                    clearTimeout(deadlineTimer);
+                    clearInterval(checkInterval);
+                    clearInterval(progressInterval);
+                    successWatcher.stop();
+                    page?.off('framenavigated', checkRules);
+                    extra.signal.removeEventListener('abort', onAbort);
+                    pendingLogins.delete(id);
+                };
+                const finish = (result: string) => {
+                    cleanup();
+                    resolve(result);
+                };
+                const cancel = (reason: string) => {
+                    cleanup();
+                    reject(new Error(reason));
+                };
+                const onAbort = () => cancel('Login cancelled by the client');
+                
+                // Method 1: Success rules, checked every second and on each navigation
+                const checkRules = async () => {
+                    if (checking || !pendingLogins.has(id)) return;
+                    checking = true;
+                    try {
+                        const matched = await successWatcher.check();
+                        const satisfied = successMatch === 'all' ? matched.length === rules.length : matched.length > 0;
+                        if (satisfied && pendingLogins.has(id)) {
+                            finish(`success rule${matched.length > 1 ? 's' : ''} (${successMatch}): ${matched.map(describeSuccessRule).join('; ')}`);
+                        }
+                    } finally {
+                        checking = false;
+                    }
+                };
+                
+                const deadlineTimer = setTimeout(() => finish('timeout'), maxWaitTime);
+                const checkInterval = setInterval(checkRules, 1000);
+                page!.on('framenavigated', checkRules);
+                extra.signal.addEventListener('abort', onAbort);
+                
+                // Method 2: signal-login-complete or cancel-login for this login ID
+                pendingLogins.set(id, {
+                    id,
+                    url,
+                    authProfile,
+                    sessionId,
+                    startedAt: new Date(startTime),
+                    deadline: new Date(startTime + maxWaitTime),
+                    complete: () => finish('manual signal'),
+                    cancel
+                });
+                
+                sendProgress(`Waiting for manual login ${id} in the ${browserWindow} browser window (up to ${waitMinutes} minutes). Call signal-login-complete with loginId "${id}" once logged in.`);
+                progressInterval = setInterval(() => {
+                    const remainingSeconds = Math.max(0, Math.round((maxWaitTime - (Date.now() - startTime)) / 1000));
+                    sendProgress(`Still waiting for login ${id} (${remainingSeconds}s left)`);
+                }, 10000);
+            });
+            
+            sendProgress(`Login ${id} finished: ${outcome}`);
+            
+            // The cookies at the deadline may be from before the login, so keep the saved profile
+            if (outcome === 'timeout') {
+                return {
+                    isError: true,
+                    content: [
+                        {
+                            type: "text",
+                            text: `Login ${id} timed out after ${waitMinutes} minutes without being verified. Auth profile "${authProfile}" was not changed.\n\nFinal URL: ${page.url()}\nSuccess rules (${successMatch}): ${rules.map(describeSuccessRule).join('; ')}\n\nThe browser window remains open. Run login-and-wait again, with success rules that fit this site or followed by signal-login-complete once logged in.`
+                        }
+                    ]
+                };
+            }
+            
+            // Save all cookies of the browser context (including other subdomains the login passed through)
+            // and the web storage of the final page into the auth profile
+            const cookies = await page.browserContext().cookies();
+            const storage = await readPageStorage(page);
+            await updateAuthProfile(authProfile, cookies, storage);
+            
+            const finalUrl = page.url();
+            const browserType = sessionId ? `session ${sessionId}` : useDefaultBrowser ? 'default browser' : 'Puppeteer browser';
+            
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Login session established and saved to auth profile "${authProfile}"!\n\nBrowser: ${browserType}\nInitial URL: ${url}\nFinal URL: ${finalUrl}${describeStealth(stealth, userAgent)}\nCookies saved: ${cookies.length}\nStorage saved: ${storage ? `${Object.keys(storage.localStorage).length} localStorage and ${Object.keys(storage.sessionStorage).length} sessionStorage items for ${storage.origin}` : 'none'}\n\nLogin ID: ${id}\nSuccess rules (${successMatch}): ${rules.map(describeSuccessRule).join('; ')}\nLogin completed via: ${outcome}\n\nThe browser window will remain open for future screenshots.`
+                    }
+                ],
+            };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return {
+                isError: true,
+                content: [
+                    {
+                        type: "text",
+                        text: `Error during login process (login ID ${id}): ${errorMessage}`,
+                    },
+                ],
+            };
+        }
+        // Don't close the page - keep it for future use
+    }
+);
+
+// Tool to log in automatically by filling in a login form
+server.tool(
+    "automated-login",
+    "Logs in without a human by filling a login form with credentials read from environment variables or the local secrets file, optionally with a TOTP code, then saves the session to an auth profile",
+    {
+        url: z.string().url().describe("The URL of the login page"),
+        usernameSelector: z.string().describe("CSS selector of the username or email input"),
+        passwordSelector: z.string().describe("CSS selector of the password input"),
+        submitSelector: z.string().describe("CSS selector of the button that submits the login form"),
+        username: secretRefSchema.describe("Where to read the username from: { \"env\": \"VAR\" } or { \"secret\": \"key\" }"),
+        password: secretRefSchema.describe("Where to read the password from: { \"env\": \"VAR\" } or { \"secret\": \"key\" }"),
+        nextSelector: z.string().optional().describe("CSS selector of a button to click between username and password, for two-step login forms"),
+        totpSeed: secretRefSchema.optional().describe("Where to read the base32 TOTP seed from, to fill in a one-time code after submitting"),
+        totpSelector: z.string().optional().describe("CSS selector of the one-time code input (required with totpSeed)"),
+        totpSubmitSelector: z.string().optional().describe("CSS selector of the button that submits the one-time code (default: press Enter)"),
+        successSelector: z.string().optional().describe("CSS selector that appears once login succeeded"),
+        successUrlPattern: z.string().optional().describe("Regular expression the page URL matches once login succeeded"),
+        timeoutSeconds: z.number().optional().default(30).describe("Maximum seconds to wait for each step and for the success check"),
+        authProfile: z.string().regex(authProfileNamePattern).optional().default('default').describe("Name of the auth profile to save the login into (default: \"default\")"),
+        visibleBrowser: z.boolean().optional().default(false).describe("Whether to show the browser window (non-headless mode)"),
+        sessionId: z.string().optional().describe("Named session from open-session to log in with"),
+        stealth: stealthProfileSchema.optional().default('basic'),
+        userAgent: userAgentSchema.optional()
+    },
+    async ({ url, usernameSelector, passwordSelector, submitSelector, username, password, nextSelector, totpSeed, totpSelector, totpSubmitSelector, successSelector, successUrlPattern, timeoutSeconds, authProfile, visibleBrowser, sessionId, stealth, userAgent }) => {
+        let page: Page | null = null;
+        let shouldClosePage = true;
+        let step = 'starting';
+        
+        try {
+            if (!successSelector && !successUrlPattern) {
+                throw new Error('Provide successSelector or successUrlPattern so the login can be verified');
+            }
+            if (totpSeed && !totpSelector) {
+                throw new Error('totpSelector is required when totpSeed is given');
+            }
+            
+            // Resolve all credentials before opening the page so a missing one fails fast
+            step = 'reading credentials';
+            const usernameValue = await resolveSecret(username);
+            const passwordValue = await resolveSecret(password);
+            const totpSeedValue = totpSeed ? await resolveSecret(totpSeed) : null;
+            const timeout = timeoutSeconds * 1000;
+            
+            step = 'opening login page';
+            const capture = await openCapturePage({
+                url,
+                waitFor: 'networkidle2',
+                delay: 0,
+                useSavedAuth: false,
+                reuseAuthPage: false,
+                useDefaultBrowser: false,
+                visibleBrowser,
+                sessionId,
+                stealth,
+                userAgent
+            });
+            page = capture.page;
+            shouldClosePage = capture.shouldClosePage;
+            
+            step = 'filling in username';
+            await page.waitForSelector(usernameSelector, { visible: true, timeout });
+            await page.type(usernameSelector, usernameValue);
+            
+            if (nextSelector) {
+                step = 'continuing to password';
+                await page.click(nextSelector);
+            }
+            
+            step = 'filling in password';
+            await page.waitForSelector(passwordSelector, { visible: true, timeout });
+            await page.type(passwordSelector, passwordValue);
+            
+            step = 'submitting login form';
+            await Promise.all([
+                page.waitForNavigation({ waitUntil: 'networkidle2', timeout }).catch(() => {}),
+                page.click(submitSelector)
+            ]);
+            
+            if (totpSeedValue && totpSelector) {
+                step = 'filling in one-time code';
+                await page.waitForSelector(totpSelector, { visible: true, timeout });
+                await page.type(totpSelector, generateTotp(totpSeedValue));
+                await Promise.all([
+                    page.waitForNavigation({ waitUntil: 'networkidle2', timeout }).catch(() => {}),
+                    totpSubmitSelector ? page.click(totpSubmitSelector) : page.keyboard.press('Enter')
+                ]);
+            }
+            
+            step = 'checking login success';
+            if (successSelector) {
+                await page.waitForSelector(successSelector, { timeout });
+            }
+            if (successUrlPattern) {
+                await page.waitForFunction(
+                    (pattern) => new RegExp(pattern).test(window.location.href),
+                    { timeout },
+                    successUrlPattern
+                );
+            }
+            
+            // Save the session the same way login-and-wait does
+            step = 'saving session';
+            const cookies = await page.browserContext().cookies();
+            const storage = await readPageStorage(page);
+            await updateAuthProfile(authProfile, cookies, storage);
+            
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Automated login succeeded and was saved to auth profile "${authProfile}"!\n\nInitial URL: ${url}\nFinal URL: ${page.url()}${describeStealth(stealth, userAgent)}\nUsername from: ${describeSecretRef(username)}\nPassword from: ${describeSecretRef(password)}\nOne-time code: ${totpSeed ? `generated from ${describeSecretRef(totpSeed)}` : 'not used'}\nCookies saved: ${cookies.length}${sessionId ? `\nSession: ${sessionId}` : ''}`
+                    }
+                ],
+            };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            const finalUrl = page && !page.isClosed() ? `\nPage URL: ${page.url()}` : '';
+            return {
+                isError: true,
+                content: [
+                    {
+                        type: "text",
+                        text: `Automated login failed while ${step}: ${errorMessage}${finalUrl}`,
+                    },
+                ],
+            };
+        } finally {
+            await releaseCapturePage(page, shouldClosePage);
+        }
+    }
+);
+
+// Parameters shared by tools that capture a page the same way screenshot-page does
+const capturePageParams = {
+    url: z.string().url().describe("The URL of the webpage to screenshot"),
+    fullPage: z.boolean().optional().default(true).describe("Whether to capture the full page or just the viewport"),
+    width: z.number().optional().describe("Viewport width in pixels (default: 1920, or the session's viewport)"),
+    height: z.number().optional().describe("Viewport height in pixels (default: 1080, or the session's viewport)"),
+    waitFor: z.enum(['load', 'domcontentloaded', 'networkidle0', 'networkidle2']).optional().default('networkidle2').describe("When to consider the page loaded"),
+    delay: z.number().optional().default(0).describe("Additional delay in milliseconds to wait after page load"),
+    useSavedAuth: z.boolean().optional().default(true).describe("Whether to use the saved auth profile from a previous login"),
+    authProfile: z.string().regex(authProfileNamePattern).optional().default('default').describe("Name of the auth profile to use (default: \"default\")"),
+    reuseAuthPage: z.boolean().optional().default(false).describe("Whether to use the existing authenticated page instead of creating a new one"),
+    useDefaultBrowser: z.boolean().optional().default(false).describe("Whether to use the system's default browser instead of Puppeteer's bundled Chromium"),
+    visibleBrowser: z.boolean().optional().default(false).describe("Whether to show the browser window (non-headless mode)"),
+    actions: z.array(actionSchema).optional().describe("Interaction steps (click, type, press, hover, scroll-to, select-option, wait-for-selector, wait-for-network-idle) to run after page load and before capture"),
+    device: deviceProfileSchema.optional().describe("Device profile (mobile, tablet, desktop or a custom profile) to use in place of width and height"),
+    output: z.enum(['inline', 'file']).optional().default('inline').describe("Return captures inline as base64 images, or save them to disk and return only their path and resource URI"),
+    sessionId: z.string().optional().describe("Named session from open-session to capture in; its browser mode, cookies, viewport and persistent page are used instead of the shared browser"),
+    stable: stableSchema.optional(),
+    emulation: emulationSchema.optional(),
+    stealth: stealthProfileSchema.optional().default('basic'),
+    userAgent: userAgentSchema.optional()
+};
+
+// Parameters for hiding and masking elements before a capture
+const redactionParams = {
+    hide: z.array(z.string()).optional().default([]).describe("CSS selectors of elements to remove from the layout before capturing, e.g. cookie banners and chat widgets"),
+    mask: z.array(z.string()).optional().default([]).describe("CSS selectors of elements to paint over with a solid box, e.g. emails, API keys and balances"),
+    maskColor: z.string().optional().default('#000000').describe("CSS colour of the mask boxes (default: #000000)")
+};
+
+// Updated screenshot-page tool with authentication support
+server.tool(
+    "screenshot-page",
+    "Captures a screenshot of a given URL and returns it as base64 encoded image. Can use saved cookies from login-and-wait.",
+    {
+        ...capturePageParams,
+        format: z.enum(['png', 'jpeg', 'webp']).optional().default('png').describe("Image format for the screenshot"),
+        quality: z.number().min(0).max(100).optional().describe("Quality of the image (0-100), only applicable for jpeg and webp"),
+        captureNetwork: z.boolean().optional().default(false).describe("Whether to record all network requests, return a summary and save them as a HAR file"),
+        ...redactionParams,
+        requestRules: requestRulesSchema.optional(),
+        pageLogLevel: z.enum(pageLogLevels).optional().describe("Report console messages, uncaught exceptions, unhandled promise rejections and failed resource loads at or above this level: debug, info, warning or error (default: no report)"),
+        performance: performanceSchema.optional(),
+        scrollAndStitch: scrollAndStitchSchema.optional()
+    },
+    async ({ url, fullPage, width, height, format, quality, waitFor, delay, useSavedAuth, reuseAuthPage, useDefaultBrowser, visibleBrowser, actions, device, output, sessionId, authProfile, stable, hide, mask, maskColor, captureNetwork, requestRules, pageLogLevel, performance, scrollAndStitch, emulation, stealth, userAgent }) => {
+        let page: Page | null = null;
+        let shouldClosePage = true;
+        let network: NetworkRecording | undefined;
+        let pageLog: PageLogRecording | undefined;
+        let interception: RequestInterception | undefined;
+        let performanceRecording: PerformanceRecording | undefined;
+        
+        try {
+            const deviceProfile = device ? resolveDeviceProfile(device) : undefined;
+            const performanceOptions = resolvePerformanceOptions(performance);
+            const stitchOptions = resolveScrollAndStitchOptions(scrollAndStitch);
+            const capture = await openCapturePage({ url, width, height, waitFor, delay, useSavedAuth, authProfile, reuseAuthPage, useDefaultBrowser, visibleBrowser, actions, device: deviceProfile, sessionId, recordNetwork: captureNetwork || performanceOptions !== undefined, recordPageLog: pageLogLevel !== undefined, requestRules, stable: resolveStableOptions(stable), performance: performanceOptions, emulation, stealth, userAgent, hide, mask, maskColor });
+            page = capture.page;
+            shouldClosePage = capture.shouldClosePage;
+            network = capture.network;
+            pageLog = capture.pageLog;
+            interception = capture.interception;
+            performanceRecording = capture.performance;
+            
+            // Measure before the screenshot, which would otherwise count as main thread work
+            const performanceReport = performanceRecording ? await collectPerformanceReport(page, performanceRecording, network) : undefined;
+            
+            let screenshot: string;
+            let imageFormat = format;
+            let captureMode = `Full Page: ${fullPage}`;
+            if (stitchOptions) {
+                // Stitched frames are always PNG, and each is masked on its own layout
+                const stitched = await captureScrollAndStitch(page, stitchOptions, capture.applyMasks);
+                screenshot = stitched.screenshot;
+                imageFormat = 'png';
+                captureMode = `Scroll and stitch: ${stitched.frames} frames of ${stitchOptions.container ?? 'the window'}, ${stitched.width}x${stitched.height}, stopped at ${stitched.stopReason}${stitched.stickyHidden > 0 ? `, ${stitched.stickyHidden} fixed or sticky elements hidden after the first frame` : ''}`;
+            } else {
+                // Prepare screenshot options
+                const screenshotOptions: any = {
+                    encoding: 'base64',
+                    fullPage,
+                    type: format
+                };
+                
+                // Add quality option for jpeg and webp
+                if ((format === 'jpeg' || format === 'webp') && quality !== undefined) {
+                    screenshotOptions.quality = quality;
+                }
+                
+                // Take screenshot
+                await capture.applyMasks();
+                screenshot = await page.screenshot(screenshotOptions) as string;
+            }
+            
+            // Get page title and final URL for context
+            const pageTitle = await page.title();
+            const finalUrl = page.url();
+            const networkSummary = network && captureNetwork ? `\n\n${await saveNetworkRecording(network, url, pageTitle)}` : '';
+            const pageLogReport = pageLog ? formatPageLog(pageLog.entries, pageLogLevel!) : '';
+            const performanceSummary = performanceReport ? `\n\n${summarizePerformance(performanceReport)}` : '';
+            
+            // If using a new page, save any new cookies to the auth profile
+            if (!reuseAuthPage && useSavedAuth) {
+                const currentCookies = await page.cookies();
+                if (currentCookies.length > 0) {
+                    await updateAuthProfile(authProfile, currentCookies);
+                }
+            }
+            
+            // Determine browser and viewport for response
+            const browserDescription = describeCaptureBrowser(useDefaultBrowser, visibleBrowser, sessionId);
+            const viewport = page.viewport();
+            const dimensions = deviceProfile ? describeDeviceProfile(deviceProfile) : viewport ? `${viewport.width}x${viewport.height}` : 'browser window';
+            
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Screenshot captured successfully!\n\nBrowser: ${browserDescription}\nPage Title: ${pageTitle}\nFinal URL: ${finalUrl}\nFormat: ${imageFormat}\nDimensions: ${dimensions}\n${captureMode}\nUsed saved auth: ${useSavedAuth}\nReused auth page: ${reuseAuthPage}${describeStealth(stealth, userAgent)}${describeEmulation(emulation)}${capture.redactions}${capture.stability}${interception ? describeRequestInterception(interception) : ''}${formatActionResults(capture.actionResults)}${pageLogReport}${networkSummary}${performanceSummary}`
+                    },
+                    ...await buildCaptureContent(output, screenshot, `image/${imageFormat}`, url, 'page'),
+                    ...(performanceReport ? await buildPerformanceContent(performanceReport, performanceRecording!, output, url) : [])
+                ],
+            };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return {
+                isError: true,
+                content: [
+                    {
+                        type: "text",
+                        text: `Error capturing screenshot: ${errorMessage}`,
+                    },
+                ],
+            };
+        } finally {
+            await network?.stop();
+            await pageLog?.stop();
+            await interception?.stop();
+            await performanceRecording?.stop();
+            // Only close the page if it's not the persistent one or if we should close it
+            await releaseCapturePage(page, shouldClosePage);
+        }
+    }
+);
+
+// Render a page to PDF for archiving
+server.tool(
+    "render-pdf",
+    "Renders a URL to a PDF with paper size, margins, headers and footers. Can use saved cookies from login-and-wait.",
+    {
+        url: z.string().url().describe("The URL of the webpage to render"),
+        paperFormat: z.enum(['letter', 'legal', 'tabloid', 'ledger', 'a0', 'a1', 'a2', 'a3', 'a4', 'a5', 'a6']).optional().default('a4').describe("Paper format"),
+        landscape: z.boolean().optional().default(false).describe("Whether to use landscape orientation"),
+        margin: z.object({
+            top: z.string().optional(),
+            right: z.string().optional(),
+            bottom: z.string().optional(),
+            left: z.string().optional()
+        }).optional().describe("Page margins as CSS lengths, e.g. { \"top\": \"1cm\", \"bottom\": \"1cm\" }"),
+        printBackground: z.boolean().optional().default(true).describe("Whether to print background colours and images"),
+        pageRanges: z.string().optional().describe("Pages to include, e.g. \"1-3, 5\" (default: all pages)"),
+        scale: z.number().min(0.1).max(2).optional().default(1).describe("Rendering scale (0.1-2)"),
+        mediaType: z.enum(['print', 'screen']).optional().default('print').describe("CSS media type to emulate while rendering"),
+        headerTemplate: z.string().optional().describe("HTML template for the page header; supports the date, title, url, pageNumber and totalPages classes"),
+        footerTemplate: z.string().optional().describe("HTML template for the page footer; supports the date, title, url, pageNumber and totalPages classes"),
+        width: capturePageParams.width,
+        height: capturePageParams.height,
+        waitFor: capturePageParams.waitFor,
+        delay: capturePageParams.delay,
+        useSavedAuth: capturePageParams.useSavedAuth,
+        authProfile: capturePageParams.authProfile,
+        actions: capturePageParams.actions,
+        output: z.enum(['inline', 'file']).optional().default('inline').describe("Return the PDF as an embedded resource, or save it to disk and return only its path and resource URI"),
+        sessionId: capturePageParams.sessionId,
+        emulation: capturePageParams.emulation,
+        stealth: capturePageParams.stealth,
+        userAgent: capturePageParams.userAgent
+    },
+    async ({ url, paperFormat, landscape, margin, printBackground, pageRanges, scale, mediaType, headerTemplate, footerTemplate, width, height, waitFor, delay, useSavedAuth, authProfile, actions, output, sessionId, emulation, stealth, userAgent }) => {
+        let page: Page | null = null;
+        let shouldClosePage = true;
+        
+        try {
+            // PDF rendering is only supported by headless Chromium
+            const capture = await openCapturePage({ url, width, height, waitFor, delay, useSavedAuth, authProfile, reuseAuthPage: false, useDefaultBrowser: false, visibleBrowser: false, actions, sessionId, emulation, stealth, userAgent });
+            page = capture.page;
+            shouldClosePage = capture.shouldClosePage;
+            
+            await page.emulateMediaType(mediaType);
+            
+            const displayHeaderFooter = headerTemplate !== undefined || footerTemplate !== undefined;
+            const pdf = await page.pdf({
+                format: paperFormat,
+                landscape,
+                margin,
+                printBackground,
+                pageRanges,
+                scale,
+                displayHeaderFooter,
+                // Chromium prints its default header/footer when only one template is given
+                headerTemplate: displayHeaderFooter ? headerTemplate ?? '<span></span>' : undefined,
+                footerTemplate: displayHeaderFooter ? footerTemplate ?? '<span></span>' : undefined
+            });
+            
+            const pageTitle = await page.title();
+            const finalUrl = page.url();
+            
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `PDF rendered successfully!\n\nPage Title: ${pageTitle}\nFinal URL: ${finalUrl}\nPaper: ${paperFormat}${landscape ? ' (landscape)' : ''}\nMedia type: ${mediaType}\nPage ranges: ${pageRanges || 'all'}\nSize: ${pdf.length} bytes\nUsed saved auth: ${useSavedAuth}${describeStealth(stealth, userAgent)}${describeEmulation(emulation)}${formatActionResults(capture.actionResults)}`
+                    },
+                    ...await buildCaptureContent(output, Buffer.from(pdf).toString('base64'), 'application/pdf', url, 'pdf')
+                ],
+            };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return {
+                isError: true,
+                content: [
+                    {
+                        type: "text",
+                        text: `Error rendering PDF: ${errorMessage}`,
+                    },
+                ],
+            };
+        } finally {
+            await releaseCapturePage(page, shouldClosePage);
+        }
+    }
+);
+
+// Record the network activity of a page as a HAR file
+server.tool(
+    "capture-har",
+    "Loads a URL and records every network request (URL, method, status, timing, size, resource type and failures). Returns a summary and saves a HAR 1.2 file.",
+    {
+        url: z.string().url().describe("The URL of the webpage to record"),
+        width: capturePageParams.width,
+        height: capturePageParams.height,
+        waitFor: capturePageParams.waitFor,
+        delay: capturePageParams.delay,
+        useSavedAuth: capturePageParams.useSavedAuth,
+        authProfile: capturePageParams.authProfile,
+        reuseAuthPage: capturePageParams.reuseAuthPage,
+        useDefaultBrowser: capturePageParams.useDefaultBrowser,
+        visibleBrowser: capturePageParams.visibleBrowser,
+        actions: capturePageParams.actions,
+        device: capturePageParams.device,
+        sessionId: capturePageParams.sessionId,
+        emulation: capturePageParams.emulation,
+        stealth: capturePageParams.stealth,
+        userAgent: capturePageParams.userAgent
+    },
+    async ({ url, width, height, waitFor, delay, useSavedAuth, authProfile, reuseAuthPage, useDefaultBrowser, visibleBrowser, actions, device, sessionId, emulation, stealth, userAgent }) => {
+        let page: Page | null = null;
+        let shouldClosePage = true;
+        let network: NetworkRecording | undefined;
+        
+        try {
+            const deviceProfile = device ? resolveDeviceProfile(device) : undefined;
+            const capture = await openCapturePage({ url, width, height, waitFor, delay, useSavedAuth, authProfile, reuseAuthPage, useDefaultBrowser, visibleBrowser, actions, device: deviceProfile, sessionId, recordNetwork: true, emulation, stealth, userAgent });
+            page = capture.page;
+            shouldClosePage = capture.shouldClosePage;
+            network = capture.network!;
+            
+            const pageTitle = await page.title();
+            const finalUrl = page.url();
+            const networkSummary = await saveNetworkRecording(network, url, pageTitle);
+            const browserDescription = describeCaptureBrowser(useDefaultBrowser, visibleBrowser, sessionId);
+            
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Network activity captured successfully!\n\nBrowser: ${browserDescription}\nPage Title: ${pageTitle}\nFinal URL: ${finalUrl}\nUsed saved auth: ${useSavedAuth}${describeStealth(stealth, userAgent)}${describeEmulation(emulation)}${formatActionResults(capture.actionResults)}\n\n${networkSummary}`
+                    }
+                ],
+            };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return {
+                isError: true,
+                content: [
+                    {
+                        type: "text",
+                        text: `Error capturing network activity: ${errorMessage}`,
+                    },
+                ],
+            };
+        } finally {
+            await network?.stop();
+            await releaseCapturePage(page, shouldClosePage);
+        }
+    }
+);
+
+// Measure page speed with optional throttling and a filmstrip of the load
+server.tool(
+    "measure-performance",
+    "Loads a URL and measures its speed: navigation timing, Core Web Vitals (FCP, LCP, CLS, TBT and long tasks), JS heap, DOM size and resources by type. Supports CPU and network throttling and a filmstrip of the load. Returns a summary and a JSON report to compare between runs.",
+    {
+        url: z.string().url().describe("The URL of the webpage to measure"),
+        ...performanceOptionsSchema.shape,
+        width: capturePageParams.width,
+        height: capturePageParams.height,
+        waitFor: capturePageParams.waitFor,
+        delay: capturePageParams.delay,
+        useSavedAuth: capturePageParams.useSavedAuth,
+        authProfile: capturePageParams.authProfile,
+        reuseAuthPage: capturePageParams.reuseAuthPage,
+        useDefaultBrowser: capturePageParams.useDefaultBrowser,
+        visibleBrowser: capturePageParams.visibleBrowser,
+        actions: capturePageParams.actions,
+        device: capturePageParams.device,
+        output: capturePageParams.output,
+        sessionId: capturePageParams.sessionId,
+        emulation: capturePageParams.emulation,
+        stealth: capturePageParams.stealth,
+        userAgent: capturePageParams.userAgent
+    },
+    async ({ url, cpuThrottling, networkThrottling, filmstripInterval, maxFilmstripFrames, width, height, waitFor, delay, useSavedAuth, authProfile, reuseAuthPage, useDefaultBrowser, visibleBrowser, actions, device, output, sessionId, emulation, stealth, userAgent }) => {
+        let page: Page | null = null;
+        let shouldClosePage = true;
+        let network: NetworkRecording | undefined;
+        let performanceRecording: PerformanceRecording | undefined;
+        
+        try {
+            const deviceProfile = device ? resolveDeviceProfile(device) : undefined;
+            const performanceOptions = resolvePerformanceOptions({ cpuThrottling, networkThrottling, filmstripInterval, maxFilmstripFrames });
+            const capture = await openCapturePage({ url, width, height, waitFor, delay, useSavedAuth, authProfile, reuseAuthPage, useDefaultBrowser, visibleBrowser, actions, device: deviceProfile, sessionId, recordNetwork: true, performance: performanceOptions, emulation, stealth, userAgent });
+            page = capture.page;
+            shouldClosePage = capture.shouldClosePage;
+            network = capture.network;
+            performanceRecording = capture.performance!;
+            
+            const report = await collectPerformanceReport(page, performanceRecording, network);
+            const pageTitle = await page.title();
+            const browserDescription = describeCaptureBrowser(useDefaultBrowser, visibleBrowser, sessionId);
+            
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Performance measured successfully!\n\nBrowser: ${browserDescription}\nPage Title: ${pageTitle}\nFinal URL: ${report.url}\nUsed saved auth: ${useSavedAuth}${describeStealth(stealth, userAgent)}${describeEmulation(emulation)}${formatActionResults(capture.actionResults)}\n\n${summarizePerformance(report)}`
+                    },
+                    ...await buildPerformanceContent(report, performanceRecording, output, url)
+                ],
+            };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return {
+                isError: true,
+                content: [
+                    {
+                        type: "text",
+                        text: `Error measuring performance: ${errorMessage}`,
+                    },
+                ],
+            };
+        } finally {
+            await network?.stop();
+            await performanceRecording?.stop();
+            await releaseCapturePage(page, shouldClosePage);
+        }
+    }
+);
+
+// Extract the readable content of a page instead of capturing pixels
+server.tool(
+    "extract-page",
+    "Loads a URL like screenshot-page and returns its main content as Markdown, its links, headings outline and meta/OpenGraph tags, and optionally the raw HTML or a screenshot",
+    {
+        url: z.string().url().describe("The URL of the webpage to extract"),
+        selector: z.string().optional().describe("CSS selector of the element to extract instead of the page's main content"),
+        include: z.array(z.enum(['content', 'links', 'headings', 'metadata'])).optional().default(['content', 'links', 'headings', 'metadata']).describe("Parts to return (default: all of content, links, headings and metadata)"),
+        includeHtml: z.boolean().optional().default(false).describe("Whether to also return the raw HTML of the selector's element, or of the whole document"),
+        includeScreenshot: z.boolean().optional().default(false).describe("Whether to also return a viewport screenshot"),
+        maxLength: z.number().int().min(100).optional().default(50000).describe("Maximum characters of Markdown and of HTML to return (default: 50000)"),
+        maxLinks: z.number().int().min(0).optional().default(200).describe("Maximum number of links to return (default: 200)"),
+        width: capturePageParams.width,
+        height: capturePageParams.height,
+        waitFor: capturePageParams.waitFor,
+        delay: capturePageParams.delay,
+        useSavedAuth: capturePageParams.useSavedAuth,
+        authProfile: capturePageParams.authProfile,
+        reuseAuthPage: capturePageParams.reuseAuthPage,
+        useDefaultBrowser: capturePageParams.useDefaultBrowser,
+        visibleBrowser: capturePageParams.visibleBrowser,
+        actions: capturePageParams.actions,
+        device: capturePageParams.device,
+        output: capturePageParams.output,
+        sessionId: capturePageParams.sessionId,
+        emulation: capturePageParams.emulation,
+        stealth: capturePageParams.stealth,
+        userAgent: capturePageParams.userAgent
+    },
+    async ({ url, selector, include, includeHtml, includeScreenshot, maxLength, maxLinks, width, height, waitFor, delay, useSavedAuth, authProfile, reuseAuthPage, useDefaultBrowser, visibleBrowser, actions, device, output, sessionId, emulation, stealth, userAgent }) => {
+        let page: Page | null = null;
+        let shouldClosePage = true;
+        
+        try {
+            const deviceProfile = device ? resolveDeviceProfile(device) : undefined;
+            const capture = await openCapturePage({ url, width, height, waitFor, delay, useSavedAuth, authProfile, reuseAuthPage, useDefaultBrowser, visibleBrowser, actions, device: deviceProfile, sessionId, emulation, stealth, userAgent });
+            page = capture.page;
+            shouldClosePage = capture.shouldClosePage;
+            
+            const extract = await page.evaluate(extractPageContent, selector ?? null, maxLinks, includeHtml);
+            if (!extract) {
+                throw new Error(`Element not found with selector: ${selector}`);
+            }
+            
+            const pageTitle = await page.title();
+            const finalUrl = page.url();
+            const browserDescription = describeCaptureBrowser(useDefaultBrowser, visibleBrowser, sessionId);
+            
+            const content: CaptureContent[] = [{
+                type: "text",
+                text: `Page extracted successfully!\n\nBrowser: ${browserDescription}\nPage Title: ${pageTitle}\nFinal URL: ${finalUrl}\nContent from: ${extract.contentRoot}\nUsed saved auth: ${useSavedAuth}${describeStealth(stealth, userAgent)}${describeEmulation(emulation)}${formatActionResults(capture.actionResults)}`
+            }];
+            
+            if (include.includes('metadata')) {
+                const metaLines = extract.meta.map(({ name, content }) => `${name}: ${content}`);
+                content.push({ type: "text", text: `Metadata:\n${metaLines.length > 0 ? metaLines.join('\n') : 'none'}` });
+            }
+            if (include.includes('headings')) {
+                const headingLines = extract.headings.map(heading => `${'  '.repeat(heading.level - 1)}- H${heading.level} ${heading.text}`);
+                content.push({ type: "text", text: `Headings:\n${headingLines.length > 0 ? headingLines.join('\n') : 'none'}` });
+            }
+            if (include.includes('content')) {
+                content.push({ type: "text", text: `Content (Markdown):\n\n${truncateText(extract.markdown, maxLength) || '(no text content)'}` });
+            }
+            if (include.includes('links')) {
+                const linkLines = extract.links.map(link => `- [${link.text || '(no text)'}](${link.href})`);
+                const shown = extract.totalLinks > extract.links.length ? ` (first ${extract.links.length} of ${extract.totalLinks})` : '';
+                content.push({ type: "text", text: `Links${shown}:\n${linkLines.length > 0 ? linkLines.join('\n') : 'none'}` });
+            }
+            if (extract.html !== undefined) {
+                content.push({ type: "text", text: `HTML${selector ? ` of ${selector}` : ''}:\n\n${truncateText(extract.html, maxLength)}` });
+            }
+            if (includeScreenshot) {
+                const screenshot = await page.screenshot({ encoding: 'base64', type: 'png' });
+                content.push(...await buildCaptureContent(output, screenshot, 'image/png', url, 'extract'));
+            }
+            
+            return { content };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return {
+                isError: true,
+                content: [
+                    {
+                        type: "text",
+                        text: `Error extracting page: ${errorMessage}`,
+                    },
+                ],
+            };
+        } finally {
+            await releaseCapturePage(page, shouldClosePage);
+        }
+    }
+);
+
+// Audit a page for accessibility problems and return its accessibility tree
+server.tool(
+    "audit-accessibility",
+    "Loads a URL like screenshot-page, returns its accessibility tree and runs a bundled axe-core audit (missing alt text, contrast, unlabeled form controls, heading order and more), optionally with an annotated screenshot of the offending elements",
+    {
+        url: z.string().url().describe("The URL of the webpage to audit"),
+        selector: z.string().optional().describe("CSS selector of the element to audit instead of the whole page"),
+        tags: z.array(z.string()).optional().describe("axe-core rule tags to run, e.g. [\"wcag2a\", \"wcag2aa\"] (default: all rules enabled by default, including best practices)"),
+        minSeverity: z.enum(accessibilitySeverities).optional().default('minor').describe("Only report findings at or above this severity: minor, moderate, serious or critical"),
+        maxElementsPerRule: z.number().int().min(1).optional().default(10).describe("Maximum number of offending elements to list per rule (default: 10)"),
+        includeTree: z.boolean().optional().default(true).describe("Whether to return the accessibility tree"),
+        maxTreeNodes: z.number().int().min(1).optional().default(300).describe("Maximum number of accessibility tree nodes to return (default: 300)"),
+        annotate: z.boolean().optional().default(false).describe("Whether to return a full-page screenshot with the offending elements outlined and numbered"),
+        width: capturePageParams.width,
+        height: capturePageParams.height,
+        waitFor: capturePageParams.waitFor,
+        delay: capturePageParams.delay,
+        useSavedAuth: capturePageParams.useSavedAuth,
+        authProfile: capturePageParams.authProfile,
+        reuseAuthPage: capturePageParams.reuseAuthPage,
+        useDefaultBrowser: capturePageParams.useDefaultBrowser,
+        visibleBrowser: capturePageParams.visibleBrowser,
+        actions: capturePageParams.actions,
+        device: capturePageParams.device,
+        output: capturePageParams.output,
+        sessionId: capturePageParams.sessionId,
+        emulation: capturePageParams.emulation,
+        stealth: capturePageParams.stealth,
+        userAgent: capturePageParams.userAgent
+    },
+    async ({ url, selector, tags, minSeverity, maxElementsPerRule, includeTree, maxTreeNodes, annotate, width, height, waitFor, delay, useSavedAuth, authProfile, reuseAuthPage, useDefaultBrowser, visibleBrowser, actions, device, output, sessionId, emulation, stealth, userAgent }) => {
+        let page: Page | null = null;
+        let shouldClosePage = true;
+        
+        try {
+            const deviceProfile = device ? resolveDeviceProfile(device) : undefined;
+            const capture = await openCapturePage({ url, width, height, waitFor, delay, useSavedAuth, authProfile, reuseAuthPage, useDefaultBrowser, visibleBrowser, actions, device: deviceProfile, sessionId, emulation, stealth, userAgent });
+            page = capture.page;
+            shouldClosePage = capture.shouldClosePage;
+            
+            const root = selector ? await page.$(selector) : null;
+            if (selector && !root) {
+                throw new Error(`Element not found with selector: ${selector}`);
+            }
+            
+            const audit = await runAccessibilityAudit(page, selector, tags);
+            const minIndex = accessibilitySeverities.indexOf(minSeverity);
+            const findings = audit.violations
+                .filter(finding => accessibilitySeverities.indexOf(finding.severity) >= minIndex)
+                .sort((a, b) => accessibilitySeverities.indexOf(b.severity) - accessibilitySeverities.indexOf(a.severity));
+            
+            // Number every listed element so it can be found on the annotated screenshot
+            let elementNumber = 0;
+            const targets: { selector: string; label: string; color: string }[] = [];
+            const findingLines = findings.map((finding, i) => {
+                const listed = finding.elements.slice(0, maxElementsPerRule).map(element => {
+                    elementNumber++;
+                    targets.push({ selector: element.selector, label: String(elementNumber), color: severityColors[finding.severity] });
+                    return `\n   ${elementNumber}. ${element.selector}${element.summary ? `\n      ${element.summary}` : ''}`;
+                });
+                const more = finding.elements.length > listed.length ? `\n   ... ${finding.elements.length - listed.length} more elements` : '';
+                return `${i + 1}. [${finding.severity}] ${finding.rule}: ${finding.help} (${finding.elements.length} ${finding.elements.length === 1 ? 'element' : 'elements'})\n   ${finding.helpUrl}${listed.join('')}${more}`;
+            });
+            
+            const severityCounts = [...accessibilitySeverities].reverse()
+                .map(severity => [severity, findings.filter(finding => finding.severity === severity).length] as const)
+                .filter(([, count]) => count > 0)
+                .map(([severity, count]) => `${count} ${severity}`);
+            const hiddenCount = audit.violations.length - findings.length;
+            
+            const pageTitle = await page.title();
+            const browserDescription = describeCaptureBrowser(useDefaultBrowser, visibleBrowser, sessionId);
+            
+            const content: CaptureContent[] = [{
+                type: "text",
+                text: `Accessibility audit completed successfully!\n\nBrowser: ${browserDescription}\nPage Title: ${pageTitle}\nFinal URL: ${page.url()}\nScope: ${selector ?? 'whole page'}\nRules failed: ${findings.length}${severityCounts.length > 0 ? ` (${severityCounts.join(', ')})` : ''}${hiddenCount > 0 ? `, ${hiddenCount} below ${minSeverity} not shown` : ''}\nRules passed: ${audit.passes}\nNeeds manual review: ${audit.incomplete}${describeStealth(stealth, userAgent)}${describeEmulation(emulation)}${formatActionResults(capture.actionResults)}`
+            }, {
+                type: "text",
+                text: `Findings:\n${findingLines.length > 0 ? findingLines.join('\n') : 'none'}`
+            }];
+            
+            if (includeTree) {
+                const tree = await page.accessibility.snapshot({ root: root ?? undefined });
+                content.push({ type: "text", text: `Accessibility tree:\n${tree ? formatAccessibilityTree(tree, maxTreeNodes) : 'empty'}` });
+            }
+            
+            if (annotate && targets.length > 0) {
+                const drawn = await page.evaluate(outlineTargets, targets);
+                const screenshot = await page.screenshot({ encoding: 'base64', type: 'png', fullPage: true });
+                await page.evaluate(undoCaptureChanges);
+                content.push({ type: "text", text: `Annotated screenshot: ${drawn} of ${targets.length} elements outlined, numbered as in the findings and coloured by severity` });
+                content.push(...await buildCaptureContent(output, screenshot, 'image/png', url, 'accessibility'));
+            }
+            
+            return { content };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return {
+                isError: true,
+                content: [
+                    {
+                        type: "text",
+                        text: `Error auditing accessibility: ${errorMessage}`,
+                    },
+                ],
+            };
+        } finally {
+            await releaseCapturePage(page, shouldClosePage);
+        }
+    }
+);
+
+// Tool to signal login completion
+server.tool(
+    "signal-login-complete",
+    "Signals that a manual login is complete so login-and-wait continues. Lists the pending logins when no login ID is given.",
+    {
+        loginId: z.string().optional().describe("ID of the login to complete, as reported by login-and-wait. If not provided, the pending logins are listed."),
+    },
+    async ({ loginId }) => {
+        try {
+            if (!loginId) {
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: describePendingLogins()
+                        }
+                    ],
+                };
+            }
+            
+            const login = pendingLogins.get(loginId);
+            if (!login) {
+                return {
+                    isError: true,
+                    content: [
+                        {
+                            type: "text",
+                            text: `No login is waiting with ID: ${loginId}\n\n${describePendingLogins()}`
+                        }
+                    ],
+                };
+            }
+            
+            login.complete();
+            
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Login completion signal sent for ${loginId}! The login-and-wait tool will save the session and return.`
+                    }
+                ],
+            };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return {
+                isError: true,
+                content: [
+                    {
+                        type: "text",
+                        text: `Error signaling login completion: ${errorMessage}`,
+                    },
+                ],
+            };
+        }
+    }
+);
+
+// Tool to abort a pending login
+server.tool(
+    "cancel-login",
+    "Cancels a manual login that login-and-wait is waiting for, without saving the session",
+    {
+        loginId: z.string().describe("ID of the login to cancel"),
+    },
+    async ({ loginId }) => {
+        const login = pendingLogins.get(loginId);
+        if (!login) {
+            return {
+                isError: true,
+                content: [
+                    {
+                        type: "text",
+                        text: `No login is waiting with ID: ${loginId}\n\n${describePendingLogins()}`
+                    }
+                ],
+            };
+        }
+        
+        login.cancel('Login cancelled with cancel-login');
+        
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: `Login ${loginId} cancelled. No session was saved.`
+                }
+            ],
+        };
+    }
+);
+
+// Tool to clear saved cookies
+server.tool(
+    "clear-auth-cookies",
+    "Clears saved authentication from auth profiles: cookies and storage in scope for a URL, or whole profiles",
+    {
+        url: z.string().url().optional().describe("URL whose cookies (by domain and path scope) and origin storage should be cleared. If not provided, the whole profile is deleted."),
+        authProfile: z.string().regex(authProfileNamePattern).optional().describe("Name of the auth profile to clear. If not provided, all profiles are cleared."),
+    },
+    async ({ url, authProfile }) => {
+        try {
+            await ensureProfilesDir();
+            const profileNames = authProfile ? [authProfile] : await listAuthProfiles();
+            
+            if (url) {
+                // Clear only what would be sent to or stored for this URL
+                const origin = new URL(url).origin;
+                const lines: string[] = [];
+                for (const name of profileNames) {
+                    const profile = await loadAuthProfile(name);
+                    if (profile.updatedAt === null) {
+                        lines.push(`${name}: no saved profile`);
+                        continue;
+                    }
+                    
+                    const remainingCookies = profile.cookies.filter(cookie => !cookieMatchesUrl(cookie, url));
+                    const remainingStorage = profile.storage.filter(item => item.origin !== origin);
+                    const clearedCookies = profile.cookies.length - remainingCookies.length;
+                    const clearedStorage = profile.storage.length - remainingStorage.length;
+                    
+                    await saveAuthProfile({ ...profile, cookies: remainingCookies, storage: remainingStorage });
+                    lines.push(`${name}: ${clearedCookies} cookies${clearedStorage > 0 ? ' and stored web storage' : ''} cleared`);
+                }
+                
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: lines.length > 0 ? `Auth cleared for ${url}\n\n${lines.join('\n')}` : 'No saved auth profiles found'
+                        }
+                    ],
+                };
+            } else {
+                // Delete whole profiles
+                let deleted = 0;
+                for (const name of profileNames) {
+                    try {
+                        await fsPromises.unlink(getAuthProfilePath(name));
+                        deleted++;
+                    } catch {
+                        // Profile was not saved
+                    }
+                }
+                
+                if (authProfile) {
+                    return {
+                        content: [
+                            {
+                                type: "text",
+                                text: deleted > 0 ? `Auth profile deleted: ${authProfile}` : `No saved auth profile named: ${authProfile}`
+                            }
+                        ],
+                    };
+                }
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: `All saved auth profiles cleared (${deleted} profiles)`
+                        }
+                    ],
+                };
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return {
+                isError: true,
+                content: [
+                    {
+                        type: "text",
+                        text: `Error clearing cookies: ${errorMessage}`,
+                    },
+                ],
+            };
+        }
+    }
+);
+
+// Keep the screenshot-element tool as before, but add default browser support
+server.tool(
+    "screenshot-element",
+    "Captures a screenshot of a specific element on a webpage using a CSS selector",
+    {
+        url: z.string().url().describe("The URL of the webpage"),
+        selector: z.string().describe("CSS selector for the element to screenshot"),
+        waitForSelector: z.boolean().optional().default(true).describe("Whether to wait for the selector to appear"),
+        format: z.enum(['png', 'jpeg', 'webp']).optional().default('png').describe("Image format for the screenshot"),
+        quality: z.number().min(0).max(100).optional().describe("Quality of the image (0-100), only applicable for jpeg and webp"),
+        padding: z.number().min(0).optional().default(0).describe("Pixels of surrounding page to include around the element; the capture region is grown and clamped to the page, the element itself is not changed"),
+        scrollIntoView: z.boolean().optional().default(true).describe("Whether to scroll the element to the centre of the viewport before capturing, so lazy-loaded and scroll-triggered content renders"),
+        captureScrollableAncestor: z.boolean().optional().default(false).describe("Whether to capture the element's nearest scrollable ancestor (e.g. a scrolling list or panel) instead of the element itself"),
+        mode: z.enum(['single', 'all', 'annotate']).optional().default('single').describe("single: capture one matching element; all: capture every match as a separate image; annotate: one full-page image with numbered outlines over every match and a legend"),
+        index: z.number().int().min(1).optional().default(1).describe("Which match to capture in single mode, counting from 1 (e.g. a number from an annotated screenshot)"),
+        maxElements: z.number().int().min(1).max(100).optional().default(20).describe("Maximum number of matches to capture or annotate in all and annotate modes (default: 20)"),
+        useSavedAuth: capturePageParams.useSavedAuth,
+        authProfile: capturePageParams.authProfile,
+        useDefaultBrowser: z.boolean().optional().default(false).describe("Whether to use the system's default browser instead of Puppeteer's bundled Chromium"),
+        visibleBrowser: z.boolean().optional().default(false).describe("Whether to show the browser window (non-headless mode)"),
+        actions: capturePageParams.actions,
+        device: deviceProfileSchema.optional().describe("Device profile (mobile, tablet, desktop or a custom profile) to use in place of the default 1920x1080 viewport"),
+        output: capturePageParams.output,
+        sessionId: capturePageParams.sessionId,
+        stable: capturePageParams.stable,
+        emulation: capturePageParams.emulation,
+        stealth: capturePageParams.stealth,
+        userAgent: capturePageParams.userAgent,
+        ...redactionParams,
+        requestRules: requestRulesSchema.optional(),
+        pageLogLevel: z.enum(pageLogLevels).optional().describe("Report console messages, uncaught exceptions, unhandled promise rejections and failed resource loads at or above this level: debug, info, warning or error (default: no report)")
+    },
+    async ({ url, selector, waitForSelector, format, quality, padding, scrollIntoView, captureScrollableAncestor, mode, index, maxElements, useSavedAuth, authProfile, useDefaultBrowser, visibleBrowser, actions, device, output, sessionId, stable, emulation, stealth, userAgent, hide, mask, maskColor, requestRules, pageLogLevel }) => {
+        let page: Page | null = null;
+        let actionResults: ActionResult[] = [];
+        let pageLog: PageLogRecording | undefined;
+        let interception: RequestInterception | undefined;
+        const getPageLogReport = () => pageLog ? formatPageLog(pageLog.entries, pageLogLevel!) : '';
+        
+        try {
+            // Open the page the same way screenshot-page does, with the viewport defaulting to 1920x1080
+            const deviceProfile = device ? resolveDeviceProfile(device) : undefined;
+            const capture = await openCapturePage({
+                url,
+                waitFor: 'networkidle2',
+                delay: 0,
+                useSavedAuth,
+                authProfile,
+                reuseAuthPage: false,
+                useDefaultBrowser,
+                visibleBrowser,
+                actions,
+                device: deviceProfile,
+                sessionId,
+                recordPageLog: pageLogLevel !== undefined,
+                requestRules,
+                stable: resolveStableOptions(stable),
+                emulation,
+                stealth,
+                userAgent,
+                hide,
+                mask,
+                maskColor
+            });
+            page = capture.page;
+            actionResults = capture.actionResults;
+            pageLog = capture.pageLog;
+            interception = capture.interception;
+            
+            // Wait for the selector if requested
+            if (waitForSelector) {
+                await page.waitForSelector(selector, { timeout: 10000 });
+            }
+            
+            // Prepare screenshot options
+            const screenshotOptions: any = {
+                encoding: 'base64',
+                type: format
+            };
+            
+            // Add quality option for jpeg and webp
+            if ((format === 'jpeg' || format === 'webp') && quality !== undefined) {
+                screenshotOptions.quality = quality;
+            }
+            
+            // Capture a match, or its nearest scrollable ancestor if requested
+            const captureMatch = async (element: ElementHandle<Element>) => {
+                let target = element;
+                if (captureScrollableAncestor) {
+                    const ancestor = await findScrollableAncestor(element);
+                    if (!ancestor) {
+                        throw new Error('Element has no scrollable ancestor');
+                    }
+                    target = ancestor;
+                }
+                return await captureElementRegion(target, padding, scrollIntoView, screenshotOptions, capture.applyMasks);
+            };
+            
+            // Determine browser type for response
+            const browserDescription = describeCaptureBrowser(useDefaultBrowser, visibleBrowser, sessionId);
+            const getDetails = (matchInfo: string = '') => `Browser: ${browserDescription}\nURL: ${url}\nSelector: ${selector}${matchInfo}\nFormat: ${format}${deviceProfile ? `\nDevice: ${describeDeviceProfile(deviceProfile)}` : ''}${describeStealth(stealth, userAgent)}${describeEmulation(emulation)}${capture.redactions}${capture.stability}${interception ? describeRequestInterception(interception) : ''}${formatActionResults(actionResults)}${getPageLogReport()}`;
             
-            const startTime = Date.now();
-            const maxWaitTime = waitMinutes * 60 * 1000;
-            
-            // Wait for login
-            console.error(`Waiting for manual login... (up to ${waitMinutes} minutes)`);
-            console.error(`Please complete the login in the ${useDefaultBrowser ? 'default' : 'Puppeteer'} browser window.`);
-            console.error(`To continue immediately after login, use the 'signal-login-complete' tool or navigate away from the login page.`);
+            if (mode === 'annotate') {
+                // Outline every match on one full-page capture
+                const { total, elements } = await page.evaluate(inspectElements, selector, maxElements, true);
+                if (total === 0) {
+                    throw new Error(`Element not found with selector: ${selector}`);
+                }
+                await capture.applyMasks();
+                const screenshot = await page.screenshot({ ...screenshotOptions, fullPage: true }) as string;
+                await page.evaluate(undoCaptureChanges);
+                
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: `Annotated screenshot captured successfully!\n\n${getDetails()}\n\nElements: ${total}${total > elements.length ? ` (first ${elements.length} annotated)` : ''}\n${elements.map(describeElementInfo).join('\n')}`
+                        },
+                        ...await buildCaptureContent(output, screenshot, `image/${format}`, url, 'annotated')
+                    ],
+                };
+            }
             
-            if (successIndicator) {
-                try {
-                    // If it's a URL pattern
-                    if (successIndicator.startsWith('http') || successIndicator.includes('/')) {
-                        await page.waitForFunction(
-                            (pattern) => window.location.href.includes(pattern),
-                            { timeout: maxWaitTime },
-                            successIndicator
-                        );
-                    } else {
-                        // Otherwise treat as CSS selector
-                        await page.waitForSelector(successIndicator, { timeout: maxWaitTime });
+            if (mode === 'all') {
+                // Capture every match separately, labelled with its index and bounding box
+                const handles = await page.$$(selector);
+                if (handles.length === 0) {
+                    throw new Error(`Element not found with selector: ${selector}`);
+                }
+                const { elements } = await page.evaluate(inspectElements, selector, maxElements, false);
+                
+                const content: CaptureContent[] = [];
+                let failures = 0;
+                for (const info of elements) {
+                    try {
+                        const elementCapture = await captureMatch(handles[info.index - 1]);
+                        content.push({ type: "text", text: `Element ${describeElementInfo(info)}\n${describeElementCapture(elementCapture, padding)}` });
+                        content.push(...await buildCaptureContent(output, elementCapture.screenshot, `image/${format}`, url, `element-${info.index}`));
+                    } catch (error) {
+                        failures++;
+                        content.push({ type: "text", text: `Element ${describeElementInfo(info)}\nError: ${error instanceof Error ? error.message : String(error)}` });
                     }
-                } catch (timeoutError) {
-                    // Continue even if indicator not found
-                    console.error('Success indicator not found, but continuing...');
                 }
-            } else {
-                // Wait for user confirmation via multiple methods
-                await new Promise((resolve) => {
-                    const checkInterval = setInterval(() => {
-                        if (Date.now() - startTime > maxWaitTime) {
-                            clearInterval(checkInterval);
-                            resolve(null);
-                        }
-                    }, 1000);
-                    
-                    // Method 1: Page navigation detection
-                    page?.on('framenavigated', () => {
-                        const currentUrl = page?.url() || '';
-                        // Check if we've navigated away from login pages
-                        if (!currentUrl.includes('accounts.google.com') && 
-                            !currentUrl.includes('login') && 
-                            !currentUrl.includes('signin') &&
-                            !currentUrl.includes('auth')) {
-                            setTimeout(() => {
-                                clearInterval(checkInterval);
-                                resolve(null);
-                            }, 2000);
-                        }
-                    });
-                    
-                    // Method 2: Check for a completion marker file
-                    const completionFile = path.join(os.tmpdir(), 'mcp-login-complete.txt');
-                    const fileCheckInterval = setInterval(async () => {
-                        try {
-                            if (fs.existsSync(completionFile)) {
-                                await fsPromises.unlink(completionFile).catch(() => {});
-                                clearInterval(checkInterval);
-                                clearInterval(fileCheckInterval);
-                                resolve(null);
-                            }
-                        } catch (e) {
-                            // Ignore file check errors
-                        }
-                    }, 1000);
-                    
-                    // Clean up file checker when main interval ends
-                    setTimeout(() => {
-                        clearInterval(fileCheckInterval);
-                    }, maxWaitTime);
+                
+                content.unshift({
+                    type: "text",
+                    text: `Element screenshots captured: ${elements.length - failures} of ${elements.length}${handles.length > elements.length ? ` (${handles.length} matched)` : ''}\n\n${getDetails()}`
                 });
+                return { content };
             }
             
-            // Save cookies after login
-            const cookies = await page.cookies();
-            await saveCookies(url, cookies);
+            // Get the element
+            const matches = await page.$$(selector);
+            const element = matches[index - 1];
             
-            const finalUrl = page.url();
-            const browserType = useDefaultBrowser ? 'default browser' : 'Puppeteer browser';
+            if (!element) {
+                return {
+                    isError: true,
+                    content: [
+                        {
+                            type: "text",
+                            text: `Element not found with selector: ${selector}${matches.length > 0 ? ` (index ${index} requested, ${matches.length} matched)` : ''}${formatActionResults(actionResults)}${getPageLogReport()}`,
+                        },
+                    ],
+                };
+            }
+            
+            // Take screenshot of the element, with padding from the surrounding page
+            const elementCapture = await captureMatch(element);
+            const matchInfo = `${matches.length > 1 ? `\nMatch: ${index} of ${matches.length}` : ''}${captureScrollableAncestor ? '\nCaptured: nearest scrollable ancestor' : ''}\n${describeElementCapture(elementCapture, padding)}`;
             
             return {
                 content: [
                     {
                         type: "text",
-                        text: `Login session established and cookies saved!\n\nBrowser: ${browserType}\nInitial URL: ${url}\nFinal URL: ${finalUrl}\nCookies saved: ${cookies.length}\n\nLogin completed via: ${successIndicator ? 'success indicator detected' : 'automatic navigation detection or manual signal'}\n\nThe browser window will remain open for future screenshots.`
-                    }
+                        text: `Element screenshot captured successfully!\n\n${getDetails(matchInfo)}`
+                    },
+                    ...await buildCaptureContent(output, elementCapture.screenshot, `image/${format}`, url, 'element')
                 ],
             };
         } catch (error) {
@@ -484,150 +4962,94 @@ server.tool(
                 content: [
                     {
                         type: "text",
-                        text: `Error during login process: ${errorMessage}`,
+                        text: `Error capturing element screenshot: ${errorMessage}${formatActionResults(actionResults)}${getPageLogReport()}`,
                     },
                 ],
             };
+        } finally {
+            await pageLog?.stop();
+            await interception?.stop();
+            // Close the page
+            await releaseCapturePage(page, true);
         }
-        // Don't close the page - keep it for future use
     }
 );
 
-// Updated screenshot-page tool with authentication support
+// Visual regression tool comparing a new capture against a stored baseline
 server.tool(
-    "screenshot-page",
-    "Captures a screenshot of a given URL and returns it as base64 encoded image. Can use saved cookies from login-and-wait.",
+    "compare-screenshot",
+    "Captures a URL like screenshot-page and compares it pixel by pixel against a named baseline, returning a highlighted diff image, the mismatch percentage and the changed regions",
     {
-        url: z.string().url().describe("The URL of the webpage to screenshot"),
-        fullPage: z.boolean().optional().default(true).describe("Whether to capture the full page or just the viewport"),
-        width: z.number().optional().default(1920).describe("Viewport width in pixels"),
-        height: z.number().optional().default(1080).describe("Viewport height in pixels"),
-        format: z.enum(['png', 'jpeg', 'webp']).optional().default('png').describe("Image format for the screenshot"),
-        quality: z.number().min(0).max(100).optional().describe("Quality of the image (0-100), only applicable for jpeg and webp"),
-        waitFor: z.enum(['load', 'domcontentloaded', 'networkidle0', 'networkidle2']).optional().default('networkidle2').describe("When to consider the page loaded"),
-        delay: z.number().optional().default(0).describe("Additional delay in milliseconds to wait after page load"),
-        useSavedAuth: z.boolean().optional().default(true).describe("Whether to use saved cookies from previous login"),
-        reuseAuthPage: z.boolean().optional().default(false).describe("Whether to use the existing authenticated page instead of creating a new one"),
-        useDefaultBrowser: z.boolean().optional().default(false).describe("Whether to use the system's default browser instead of Puppeteer's bundled Chromium"),
-        visibleBrowser: z.boolean().optional().default(false).describe("Whether to show the browser window (non-headless mode)")
+        name: z.string().min(1).describe("Name of the baseline to compare against"),
+        ...capturePageParams,
+        threshold: z.number().min(0).max(1).optional().default(0.1).describe("Per-pixel colour difference threshold (0-1), smaller is more sensitive"),
+        maxMismatchPercent: z.number().min(0).max(100).optional().default(0).describe("Mismatch percentage above which the comparison fails"),
+        maxRegions: z.number().int().min(1).optional().default(20).describe("Maximum number of changed regions to report"),
+        acceptAsBaseline: z.boolean().optional().default(false).describe("Save the new capture as the baseline instead of comparing against it")
     },
-    async ({ url, fullPage, width, height, format, quality, waitFor, delay, useSavedAuth, reuseAuthPage, useDefaultBrowser, visibleBrowser }) => {
+    async ({ name, url, fullPage, width, height, waitFor, delay, useSavedAuth, reuseAuthPage, useDefaultBrowser, visibleBrowser, actions, device, output, sessionId, authProfile, stable, emulation, stealth, userAgent, threshold, maxMismatchPercent, maxRegions, acceptAsBaseline }) => {
         let page: Page | null = null;
         let shouldClosePage = true;
         
         try {
-            // Initialize browser with appropriate options
-            const isHeadless = !visibleBrowser;
-            const browserInstance = await initBrowser(isHeadless, useDefaultBrowser && visibleBrowser);
+            const deviceProfile = device ? resolveDeviceProfile(device) : undefined;
+            const capture = await openCapturePage({ url, width, height, waitFor, delay, useSavedAuth, authProfile, reuseAuthPage, useDefaultBrowser, visibleBrowser, actions, device: deviceProfile, sessionId, stable: resolveStableOptions(stable), emulation, stealth, userAgent });
+            page = capture.page;
+            shouldClosePage = capture.shouldClosePage;
             
-            // Check if we should reuse the authenticated page
-            if (reuseAuthPage && persistentPage && !persistentPage.isClosed()) {
-                page = persistentPage;
-                shouldClosePage = false;
-                
-                // Navigate to the new URL if different
-                const currentUrl = page.url();
-                if (currentUrl !== url) {
-                    await page.goto(url, {
-                        waitUntil: waitFor as any,
-                        timeout: 30000
-                    });
-                }
-            } else {
-                // Create a new page
-                page = await browserInstance.newPage();
-                
-                // Load saved cookies if requested
-                if (useSavedAuth) {
-                    const cookies = await loadCookies(url);
-                    if (cookies.length > 0) {
-                        await page.setCookie(...cookies);
-                    }
-                }
-                
-                // Set viewport
-                await page.setViewport({ width, height });
-                
-                // Set user agent to avoid bot detection
-                await page.setUserAgent('Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36');
-                
-                // Additional anti-detection measures for Google
-                await page.evaluateOnNewDocument(() => {
-                    // Remove webdriver property
-                    delete (window.navigator as any).webdriver;
-                    
-                    // Override the plugins property to add fake plugins
-                    Object.defineProperty(window.navigator, 'plugins', {
-                        get: () => [1, 2, 3, 4, 5]
-                    });
-                    
-                    // Override the languages property
-                    Object.defineProperty(window.navigator, 'languages', {
-                        get: () => ['en-US', 'en']
-                    });
-                    
-                    // Override permissions
-                    Object.defineProperty(window.navigator, 'permissions', {
-                        get: () => ({
-                            query: () => Promise.resolve({ state: 'granted' })
-                        })
-                    });
-                });
-                
-                // Navigate to the URL
-                await page.goto(url, {
-                    waitUntil: waitFor as any,
-                    timeout: 30000
-                });
-            }
+            // Baselines are always stored as PNG so they can be decoded losslessly
+            const captureData = Buffer.from(await page.screenshot({ fullPage, type: 'png' }));
+            const current = PNG.sync.read(captureData);
+            const baseline = acceptAsBaseline ? null : await loadBaseline(name);
             
-            // Optional delay
-            if (delay > 0) {
-                await new Promise(resolve => setTimeout(resolve, delay));
+            if (!baseline) {
+                await saveBaseline(name, captureData);
+                const reason = acceptAsBaseline ? 'Capture accepted as the new baseline' : 'No baseline found, capture saved as the new baseline';
+                
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: `${reason}.\n\nBaseline: ${name}\nFile: ${getBaselinePath(name)}\nURL: ${url}\nDimensions: ${current.width}x${current.height}${describeStealth(stealth, userAgent)}${describeEmulation(emulation)}${capture.stability}${formatActionResults(capture.actionResults)}`
+                        },
+                        ...await buildCaptureContent(output, captureData.toString('base64'), "image/png", url, `baseline-${name}`)
+                    ],
+                };
             }
             
-            // Prepare screenshot options
-            const screenshotOptions: any = {
-                encoding: 'base64',
-                fullPage,
-                type: format
-            };
-            
-            // Add quality option for jpeg and webp
-            if ((format === 'jpeg' || format === 'webp') && quality !== undefined) {
-                screenshotOptions.quality = quality;
-            }
+            // Compare on a canvas large enough for both images; any size difference counts as changed pixels
+            const diffWidth = Math.max(baseline.width, current.width);
+            const diffHeight = Math.max(baseline.height, current.height);
+            const expected = padImage(baseline, diffWidth, diffHeight);
+            const actual = padImage(current, diffWidth, diffHeight);
             
-            // Take screenshot
-            const screenshot = await page.screenshot(screenshotOptions) as string;
+            const diff = new PNG({ width: diffWidth, height: diffHeight });
+            const mismatchedPixels = pixelmatch(expected.data, actual.data, diff.data, diffWidth, diffHeight, { threshold });
+            const mask = new Uint8Array(diffWidth * diffHeight * 4);
+            pixelmatch(expected.data, actual.data, mask, diffWidth, diffHeight, { threshold, diffMask: true });
             
-            // Get page title and final URL for context
-            const pageTitle = await page.title();
-            const finalUrl = page.url();
+            const mismatchPercent = (mismatchedPixels / (diffWidth * diffHeight)) * 100;
+            const passed = mismatchPercent <= maxMismatchPercent;
+            const regions = findDiffRegions(mask, diffWidth, diffHeight);
             
-            // If using a new page, save any new cookies
-            if (!reuseAuthPage && useSavedAuth) {
-                const currentCookies = await page.cookies();
-                if (currentCookies.length > 0) {
-                    await saveCookies(url, currentCookies);
-                }
+            const regionLines = regions.slice(0, maxRegions).map((region, index) =>
+                `  ${index + 1}. x=${region.x} y=${region.y} width=${region.width} height=${region.height} (${region.pixels} pixels)`
+            );
+            if (regions.length > maxRegions) {
+                regionLines.push(`  ... and ${regions.length - maxRegions} more`);
             }
             
-            // Determine browser type for response
-            const browserType = useDefaultBrowser && visibleBrowser ? 'default browser' : 'Puppeteer browser';
-            const browserMode = visibleBrowser ? 'visible' : 'headless';
+            const sizeNote = baseline.width !== current.width || baseline.height !== current.height
+                ? `\nSize changed: ${baseline.width}x${baseline.height} -> ${current.width}x${current.height}`
+                : '';
             
             return {
                 content: [
                     {
                         type: "text",
-                        text: `Screenshot captured successfully!\n\nBrowser: ${browserType} (${browserMode})\nPage Title: ${pageTitle}\nFinal URL: ${finalUrl}\nFormat: ${format}\nDimensions: ${width}x${height}\nFull Page: ${fullPage}\nUsed saved auth: ${useSavedAuth}\nReused auth page: ${reuseAuthPage}`
+                        text: `Comparison ${passed ? 'PASSED' : 'FAILED'}\n\nBaseline: ${name}\nURL: ${url}\nFinal URL: ${page.url()}\nMismatched pixels: ${mismatchedPixels}\nMismatch: ${mismatchPercent.toFixed(3)}% (allowed: ${maxMismatchPercent}%)${sizeNote}\nChanged regions: ${regions.length}${regionLines.length > 0 ? '\n' + regionLines.join('\n') : ''}${describeStealth(stealth, userAgent)}${describeEmulation(emulation)}${capture.stability}${formatActionResults(capture.actionResults)}`
                     },
-                    {
-                        type: "image",
-                        data: screenshot,
-                        mimeType: `image/${format}`
-                    }
+                    ...await buildCaptureContent(output, PNG.sync.write(diff).toString('base64'), "image/png", url, `diff-${name}`)
                 ],
             };
         } catch (error) {
@@ -637,36 +5059,124 @@ server.tool(
                 content: [
                     {
                         type: "text",
-                        text: `Error capturing screenshot: ${errorMessage}`,
+                        text: `Error comparing screenshot: ${errorMessage}`,
                     },
                 ],
             };
         } finally {
-            // Only close the page if it's not the persistent one or if we should close it
-            if (page && shouldClosePage && page !== persistentPage) {
-                await page.close().catch(() => {});
-            }
+            await releaseCapturePage(page, shouldClosePage);
         }
     }
 );
 
-// Tool to signal login completion
+// Capture the same page once per device profile in parallel
 server.tool(
-    "signal-login-complete",
-    "Signals that manual login is complete and the login-and-wait tool should continue",
-    {},
-    async () => {
+    "screenshot-responsive",
+    "Captures a URL once per device profile (mobile, tablet, desktop or custom) in parallel and returns every screenshot labelled with its profile",
+    {
+        url: capturePageParams.url,
+        profiles: z.array(deviceProfileSchema).min(1)
+            .refine(profiles => {
+                const names = profiles.map(profile => typeof profile === 'string' ? profile : profile.name);
+                return new Set(names).size === names.length;
+            }, { message: "Profile names must be unique, as they label the screenshots and their file names" })
+            .optional().default(['mobile', 'tablet', 'desktop']).describe("Device profiles to capture: built-in names (mobile, tablet, desktop) or custom profiles, each with a unique name"),
+        fullPage: capturePageParams.fullPage,
+        format: z.enum(['png', 'jpeg', 'webp']).optional().default('png').describe("Image format for the screenshots"),
+        quality: z.number().min(0).max(100).optional().describe("Quality of the images (0-100), only applicable for jpeg and webp"),
+        waitFor: capturePageParams.waitFor,
+        delay: capturePageParams.delay,
+        useSavedAuth: capturePageParams.useSavedAuth,
+        authProfile: capturePageParams.authProfile,
+        useDefaultBrowser: capturePageParams.useDefaultBrowser,
+        visibleBrowser: capturePageParams.visibleBrowser,
+        actions: capturePageParams.actions,
+        output: capturePageParams.output,
+        sessionId: capturePageParams.sessionId,
+        stable: capturePageParams.stable,
+        emulation: capturePageParams.emulation,
+        stealth: capturePageParams.stealth,
+        userAgent: capturePageParams.userAgent
+    },
+    async ({ url, profiles, fullPage, format, quality, waitFor, delay, useSavedAuth, authProfile, useDefaultBrowser, visibleBrowser, actions, output, sessionId, stable, emulation, stealth, userAgent }) => {
         try {
-            const completionFile = path.join(os.tmpdir(), 'mcp-login-complete.txt');
-            await fsPromises.writeFile(completionFile, 'complete');
+            // Start the browser once so parallel captures share it
+            if (!sessionId) {
+                await initBrowser(!visibleBrowser, useDefaultBrowser && visibleBrowser);
+            }
             
-            return {
-                content: [
-                    {
-                        type: "text",
-                        text: "Login completion signal sent! The login-and-wait tool should continue shortly."
+            const deviceProfiles = profiles.map(resolveDeviceProfile);
+            const stableOptions = resolveStableOptions(stable);
+            const results = await Promise.all(deviceProfiles.map(async (device) => {
+                let page: Page | null = null;
+                let shouldClosePage = true;
+                
+                try {
+                    const capture = await openCapturePage({
+                        url,
+                        width: device.width,
+                        height: device.height,
+                        waitFor,
+                        delay,
+                        useSavedAuth,
+                        authProfile,
+                        reuseAuthPage: false,
+                        useDefaultBrowser,
+                        visibleBrowser,
+                        actions,
+                        device,
+                        sessionId,
+                        stable: stableOptions,
+                        emulation,
+                        stealth,
+                        userAgent
+                    });
+                    page = capture.page;
+                    shouldClosePage = capture.shouldClosePage;
+                    
+                    const screenshotOptions: any = {
+                        encoding: 'base64',
+                        fullPage,
+                        type: format
+                    };
+                    if ((format === 'jpeg' || format === 'webp') && quality !== undefined) {
+                        screenshotOptions.quality = quality;
                     }
-                ],
+                    
+                    const screenshot = await page.screenshot(screenshotOptions) as string;
+                    return { device, screenshot, title: await page.title(), actionResults: capture.actionResults, stability: capture.stability };
+                } catch (error) {
+                    return { device, error: error instanceof Error ? error.message : String(error) };
+                } finally {
+                    await releaseCapturePage(page, shouldClosePage);
+                }
+            }));
+            
+            const content: CaptureContent[] = [];
+            const failures = results.filter(result => result.error !== undefined).length;
+            content.push({
+                type: "text",
+                text: `Responsive screenshots captured: ${results.length - failures} of ${results.length}\n\nURL: ${url}\nFormat: ${format}\nFull Page: ${fullPage}${describeStealth(stealth, userAgent)}${describeEmulation(emulation)}`
+            });
+            
+            for (const result of results) {
+                if (result.error !== undefined) {
+                    content.push({
+                        type: "text",
+                        text: `Profile: ${describeDeviceProfile(result.device)}\nError: ${result.error}`
+                    });
+                    continue;
+                }
+                content.push({
+                    type: "text",
+                    text: `Profile: ${describeDeviceProfile(result.device)}\nPage Title: ${result.title}${result.stability}${formatActionResults(result.actionResults)}`
+                });
+                content.push(...await buildCaptureContent(output, result.screenshot, `image/${format}`, url, result.device.name));
+            }
+            
+            return {
+                isError: failures === results.length,
+                content
             };
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
@@ -675,7 +5185,7 @@ server.tool(
                 content: [
                     {
                         type: "text",
-                        text: `Error signaling login completion: ${errorMessage}`,
+                        text: `Error capturing responsive screenshots: ${errorMessage}`,
                     },
                 ],
             };
@@ -683,58 +5193,103 @@ server.tool(
     }
 );
 
-// Tool to clear saved cookies
+// Record a page over time, or while running interaction steps, as an animated GIF or WebP or a frame set
 server.tool(
-    "clear-auth-cookies",
-    "Clears saved authentication cookies for a specific domain or all domains",
+    "record-page",
+    "Records a URL as an animated GIF, an animated WebP or a numbered set of PNG frames, for a fixed duration or while running interaction steps, to show hover states, loading spinners and transitions. Uses the same browser, auth and viewport setup as screenshot-page.",
     {
-        url: z.string().url().optional().describe("URL of the domain to clear cookies for. If not provided, clears all cookies."),
+        url: z.string().url().describe("The URL of the webpage to record"),
+        actions: z.array(actionSchema).optional().describe("Interaction steps to run while recording; the recording lasts until they finish plus tail milliseconds"),
+        duration: z.number().int().min(100).optional().default(3000).describe("Milliseconds to record when no actions are given (default: 3000)"),
+        tail: z.number().int().min(0).optional().default(1000).describe("Milliseconds to keep recording after the actions finish (default: 1000)"),
+        maxDuration: z.number().int().min(1000).max(60000).optional().default(15000).describe("Maximum milliseconds to record, whatever the actions (default: 15000)"),
+        recordLoad: z.boolean().optional().default(false).describe("Whether to start recording before the page loads instead of after"),
+        fps: z.number().int().min(1).max(30).optional().default(10).describe("Maximum frames per second (default: 10)"),
+        scale: z.number().min(0.1).max(1).optional().default(0.5).describe("Size of the frames relative to the viewport (default: 0.5)"),
+        format: z.enum(['gif', 'webp', 'frames']).optional().default('gif').describe("Return an animated GIF, an animated WebP (full colour, smaller), or the frames as numbered PNG images"),
+        quality: z.number().min(0).max(100).optional().default(75).describe("Quality of animated WebP frames (0-100, default: 75)"),
+        maxFrames: z.number().int().min(1).max(300).optional().default(150).describe("Maximum number of frames; later frames are dropped (default: 150). Large frames are also limited to 80 million pixels in total"),
+        width: capturePageParams.width,
+        height: capturePageParams.height,
+        waitFor: capturePageParams.waitFor,
+        delay: capturePageParams.delay,
+        useSavedAuth: capturePageParams.useSavedAuth,
+        authProfile: capturePageParams.authProfile,
+        reuseAuthPage: capturePageParams.reuseAuthPage,
+        useDefaultBrowser: capturePageParams.useDefaultBrowser,
+        visibleBrowser: capturePageParams.visibleBrowser,
+        device: capturePageParams.device,
+        output: capturePageParams.output,
+        sessionId: capturePageParams.sessionId,
+        emulation: capturePageParams.emulation,
+        stealth: capturePageParams.stealth,
+        userAgent: capturePageParams.userAgent
     },
-    async ({ url }) => {
+    async ({ url, actions, duration, tail, maxDuration, recordLoad, fps, scale, format, quality, maxFrames, width, height, waitFor, delay, useSavedAuth, authProfile, reuseAuthPage, useDefaultBrowser, visibleBrowser, device, output, sessionId, emulation, stealth, userAgent }) => {
+        let page: Page | null = null;
+        let shouldClosePage = true;
+        let screencast: ScreencastRecording | undefined;
+        
         try {
-            await ensureCookiesDir();
+            const deviceProfile = device ? resolveDeviceProfile(device) : undefined;
+            const capture = await openCapturePage({ url, width, height, waitFor, delay, useSavedAuth, authProfile, reuseAuthPage, useDefaultBrowser, visibleBrowser, device: deviceProfile, sessionId, screencastScale: recordLoad ? scale : undefined, emulation, stealth, userAgent });
+            page = capture.page;
+            shouldClosePage = capture.shouldClosePage;
+            screencast = capture.screencast ?? await startScreencast(page, scale);
             
-            if (url) {
-                // Clear cookies for specific domain
-                const domain = getDomainFromUrl(url);
-                const cookiesPath = path.join(cookiesDir, `${domain}.json`);
-                try {
-                    await fsPromises.unlink(cookiesPath);
-                    return {
-                        content: [
-                            {
-                                type: "text",
-                                text: `Cookies cleared for domain: ${domain}`
-                            }
-                        ],
-                    };
-                } catch {
-                    return {
-                        content: [
-                            {
-                                type: "text",
-                                text: `No cookies found for domain: ${domain}`
-                            }
-                        ],
-                    };
+            // Record until the actions finish plus the tail, or for the duration, within maxDuration
+            const deadline = screencast.startTime * 1000 + maxDuration;
+            const waitUntil = (time: number) => new Promise(resolve => setTimeout(resolve, Math.max(0, Math.min(time, deadline) - Date.now())));
+            let actionResults: ActionResult[] = [];
+            let actionsNote = '';
+            if (actions && actions.length > 0) {
+                const finished = await Promise.race([runActions(page, actions), waitUntil(deadline).then(() => null)]);
+                if (finished) {
+                    actionResults = finished;
+                    await waitUntil(Date.now() + tail);
+                } else {
+                    actionsNote = `\nActions: still running when maxDuration (${maxDuration}ms) was reached`;
                 }
             } else {
-                // Clear all cookies
-                const files = await fsPromises.readdir(cookiesDir);
-                for (const file of files) {
-                    if (file.endsWith('.json')) {
-                        await fsPromises.unlink(path.join(cookiesDir, file));
-                    }
+                await waitUntil(Date.now() + duration);
+            }
+            const endTime = await screencast.stop();
+            
+            // A page that never repaints may not send any frame
+            if (screencast.frames.length === 0) {
+                const data = await page.screenshot({ type: 'png', encoding: 'base64' });
+                screencast.frames.push({ data, time: screencast.startTime });
+            }
+            const sampled = sampleScreencastFrames(screencast.frames, screencast.startTime, endTime, fps);
+            const { width: frameWidth, height: frameHeight } = PNG.sync.read(Buffer.from(sampled[0].data, 'base64'));
+            const pixelLimit = Math.max(1, Math.floor(maxRecordingPixels / (frameWidth * frameHeight)));
+            const frames = sampled.slice(0, Math.min(maxFrames, pixelLimit));
+            
+            const pageTitle = await page.title();
+            const browserDescription = describeCaptureBrowser(useDefaultBrowser, visibleBrowser, sessionId);
+            const recorded = Math.round((endTime - screencast.startTime) * 1000);
+            const dropped = sampled.length > frames.length ? `, ${sampled.length - frames.length} later frames dropped (${frames.length === maxFrames ? 'maxFrames' : 'pixel limit, lower scale for more frames'})` : '';
+            const formatNames = { gif: 'animated GIF', webp: 'animated WebP', frames: 'PNG frames' };
+            
+            const content: CaptureContent[] = [{
+                type: "text",
+                text: `Recording captured successfully!\n\nBrowser: ${browserDescription}\nPage Title: ${pageTitle}\nFinal URL: ${page.url()}\nFormat: ${formatNames[format]}\nRecorded: ${recorded}ms${recordLoad ? ' including page load' : ''}\nFrames: ${frames.length} at up to ${fps} fps, ${frameWidth}x${frameHeight}${dropped}${describeStealth(stealth, userAgent)}${describeEmulation(emulation)}${actionsNote}${formatActionResults(actionResults)}`
+            }];
+            
+            if (format === 'gif') {
+                const gif = await encodeGif(frames);
+                content.push(...await buildCaptureContent(output, gif.toString('base64'), 'image/gif', url, 'recording'));
+            } else if (format === 'webp') {
+                const webp = await encodeWebp(frames, quality);
+                content.push(...await buildCaptureContent(output, webp.toString('base64'), 'image/webp', url, 'recording'));
+            } else {
+                for (const [index, frame] of frames.entries()) {
+                    content.push({ type: "text", text: `Frame ${index + 1} at ${frame.time}ms, shown for ${frame.duration}ms` });
+                    content.push(...await buildCaptureContent(output, frame.data, 'image/png', url, `frame-${String(index + 1).padStart(3, '0')}`));
                 }
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: `All saved cookies cleared (${files.length} domains)`
-                        }
-                    ],
-                };
             }
+            
+            return { content };
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
             return {
@@ -742,143 +5297,158 @@ server.tool(
                 content: [
                     {
                         type: "text",
-                        text: `Error clearing cookies: ${errorMessage}`,
+                        text: `Error recording page: ${errorMessage}`,
                     },
                 ],
             };
+        } finally {
+            await screencast?.stop();
+            await releaseCapturePage(page, shouldClosePage);
         }
     }
 );
 
-// Keep the screenshot-element tool as before, but add default browser support
+// Capture many pages in one call and index them on an HTML contact sheet
 server.tool(
-    "screenshot-element",
-    "Captures a screenshot of a specific element on a webpage using a CSS selector",
+    "screenshot-batch",
+    "Captures a list of URLs, the pages of a sitemap.xml, or the same-origin pages found by crawling from a start URL, with bounded concurrency. Saves every screenshot to disk and returns a manifest (URL, status, title, file path) and an HTML contact sheet of thumbnails.",
     {
-        url: z.string().url().describe("The URL of the webpage"),
-        selector: z.string().describe("CSS selector for the element to screenshot"),
-        waitForSelector: z.boolean().optional().default(true).describe("Whether to wait for the selector to appear"),
-        format: z.enum(['png', 'jpeg', 'webp']).optional().default('png').describe("Image format for the screenshot"),
-        quality: z.number().min(0).max(100).optional().describe("Quality of the image (0-100), only applicable for jpeg and webp"),
-        padding: z.number().optional().default(0).describe("Padding around the element in pixels"),
-        useSavedAuth: z.boolean().optional().default(true).describe("Whether to use saved cookies from previous login"),
-        useDefaultBrowser: z.boolean().optional().default(false).describe("Whether to use the system's default browser instead of Puppeteer's bundled Chromium"),
-        visibleBrowser: z.boolean().optional().default(false).describe("Whether to show the browser window (non-headless mode)")
+        urls: z.array(z.string().url()).min(1).optional().describe("URLs to capture"),
+        sitemap: z.string().url().optional().describe("URL of a sitemap.xml (or sitemap index) whose pages to capture"),
+        crawl: z.object({
+            startUrl: z.string().url().describe("Page to start crawling from"),
+            maxDepth: z.number().int().min(0).max(5).optional().default(2).describe("How many links away from the start page to follow (default: 2)")
+        }).optional().describe("Capture the start page and the same-origin pages it links to, breadth first"),
+        include: z.array(z.string()).optional().default([]).describe("Regular expressions; only URLs matching at least one are captured (the crawl start page is always captured)"),
+        exclude: z.array(z.string()).optional().default([]).describe("Regular expressions; URLs matching any of them are skipped, e.g. [\"/logout\", \"\\\\?page=\"]"),
+        maxPages: z.number().int().min(1).max(100).optional().default(25).describe("Maximum number of pages to capture (default: 25)"),
+        concurrency: z.number().int().min(1).max(8).optional().default(3).describe("Number of pages captured at the same time (default: 3)"),
+        fullPage: capturePageParams.fullPage,
+        format: z.enum(['png', 'jpeg', 'webp']).optional().default('jpeg').describe("Image format for the screenshots (default: jpeg)"),
+        quality: z.number().min(0).max(100).optional().default(80).describe("Quality of the images (0-100), only applicable for jpeg and webp (default: 80)"),
+        width: capturePageParams.width,
+        height: capturePageParams.height,
+        waitFor: capturePageParams.waitFor,
+        delay: capturePageParams.delay,
+        useSavedAuth: capturePageParams.useSavedAuth,
+        authProfile: capturePageParams.authProfile,
+        useDefaultBrowser: capturePageParams.useDefaultBrowser,
+        visibleBrowser: capturePageParams.visibleBrowser,
+        device: capturePageParams.device,
+        sessionId: capturePageParams.sessionId,
+        stable: capturePageParams.stable,
+        emulation: capturePageParams.emulation,
+        stealth: capturePageParams.stealth,
+        userAgent: capturePageParams.userAgent,
+        ...redactionParams
     },
-    async ({ url, selector, waitForSelector, format, quality, padding, useSavedAuth, useDefaultBrowser, visibleBrowser }) => {
-        let page: Page | null = null;
-        
+    async ({ urls, sitemap, crawl, include, exclude, maxPages, concurrency, fullPage, format, quality, width, height, waitFor, delay, useSavedAuth, authProfile, useDefaultBrowser, visibleBrowser, device, sessionId, stable, emulation, stealth, userAgent, hide, mask, maskColor }) => {
         try {
-            // Initialize browser with appropriate options
-            const isHeadless = !visibleBrowser;
-            const browserInstance = await initBrowser(isHeadless, useDefaultBrowser && visibleBrowser);
-            
-            // Create a new page
-            page = await browserInstance.newPage();
-            
-            // Load saved cookies if requested
-            if (useSavedAuth) {
-                const cookies = await loadCookies(url);
-                if (cookies.length > 0) {
-                    await page.setCookie(...cookies);
-                }
+            const sources = [urls, sitemap, crawl].filter(source => source !== undefined).length;
+            if (sources !== 1) {
+                throw new Error('Provide exactly one of urls, sitemap or crawl');
             }
+            const includePatterns = include.map(pattern => new RegExp(pattern));
+            const excludePatterns = exclude.map(pattern => new RegExp(pattern));
+            const deviceProfile = device ? resolveDeviceProfile(device) : undefined;
+            const stableOptions = resolveStableOptions(stable);
             
-            // Set viewport (matching screenshot-page tool)
-            await page.setViewport({ width: 1920, height: 1080 });
-            
-            // Set user agent to avoid bot detection
-            await page.setUserAgent('Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36');
-            
-            // Additional anti-detection measures for Google
-            await page.evaluateOnNewDocument(() => {
-                // Remove webdriver property
-                delete (window.navigator as any).webdriver;
-                
-                // Override the plugins property to add fake plugins
-                Object.defineProperty(window.navigator, 'plugins', {
-                    get: () => [1, 2, 3, 4, 5]
-                });
-                
-                // Override the languages property
-                Object.defineProperty(window.navigator, 'languages', {
-                    get: () => ['en-US', 'en']
-                });
-                
-                // Override permissions
-                Object.defineProperty(window.navigator, 'permissions', {
-                    get: () => ({
-                        query: () => Promise.resolve({ state: 'granted' })
-                    })
-                });
-            });
-            
-            // Navigate to the URL
-            await page.goto(url, {
-                waitUntil: 'networkidle2',
-                timeout: 30000
-            });
-            
-            // Wait for the selector if requested
-            if (waitForSelector) {
-                await page.waitForSelector(selector, { timeout: 10000 });
+            // Collect the first pages to capture
+            let source: string;
+            let level: BatchPage[];
+            if (crawl) {
+                source = `crawl from ${crawl.startUrl} (depth ${crawl.maxDepth})`;
+                level = [{ url: crawl.startUrl, depth: 0 }];
+            } else {
+                const listed = sitemap ? await fetchSitemapUrls(sitemap, 50000) : urls!;
+                source = sitemap ? `sitemap ${sitemap}` : `${urls!.length} URLs`;
+                level = [...new Set(listed)]
+                    .filter(url => matchesUrlPatterns(url, includePatterns, excludePatterns))
+                    .map(url => ({ url, depth: 0 }));
             }
-            
-            // Get the element
-            const element = await page.$(selector);
-            
-            if (!element) {
-                return {
-                    isError: true,
-                    content: [
-                        {
-                            type: "text",
-                            text: `Element not found with selector: ${selector}`,
-                        },
-                    ],
-                };
+            if (level.length === 0) {
+                throw new Error(`No pages to capture from ${source}`);
             }
             
-            // Add padding if requested
-            if (padding > 0) {
-                await page.evaluate((sel, pad) => {
-                    const el = document.querySelector(sel);
-                    if (el) {
-                        (el as HTMLElement).style.padding = `${pad}px`;
-                    }
-                }, selector, padding);
+            // Start the browser once so parallel captures share it
+            if (!sessionId) {
+                await initBrowser(!visibleBrowser, useDefaultBrowser && visibleBrowser);
             }
             
-            // Prepare screenshot options
-            const screenshotOptions: any = {
-                encoding: 'base64',
-                type: format
-            };
+            const origin = crawl ? new URL(crawl.startUrl).origin : '';
+            const seen = new Set(level.map(item => crawl ? normalizeCrawlLink(item.url, origin) ?? item.url : item.url));
+            const results: BatchResult[] = [];
             
-            // Add quality option for jpeg and webp
-            if ((format === 'jpeg' || format === 'webp') && quality !== undefined) {
-                screenshotOptions.quality = quality;
+            // Capture one level of pages at a time, then queue the new links found on them
+            while (level.length > 0 && results.length < maxPages) {
+                const batch = level.slice(0, maxPages - results.length);
+                const offset = results.length;
+                const captured = await mapWithConcurrency(batch, concurrency, async (item, index) => {
+                    let page: Page | null = null;
+                    let shouldClosePage = true;
+                    const result: BatchResult = { url: item.url, depth: item.depth, status: null, title: '' };
+                    let links: string[] = [];
+                    
+                    try {
+                        const capture = await openCapturePage({ url: item.url, width, height, waitFor, delay, useSavedAuth, authProfile, reuseAuthPage: false, useDefaultBrowser, visibleBrowser, device: deviceProfile, sessionId, stable: stableOptions, emulation, stealth, userAgent, hide, mask, maskColor });
+                        page = capture.page;
+                        shouldClosePage = capture.shouldClosePage;
+                        result.status = capture.response?.status() ?? null;
+                        result.title = await page.title();
+                        result.finalUrl = page.url();
+                        
+                        await capture.applyMasks();
+                        const screenshot = await page.screenshot({ encoding: 'base64', fullPage, type: format, quality: format === 'png' ? undefined : quality }) as string;
+                        result.fileName = buildCaptureFileName(item.url, `batch-${offset + index + 1}`, format);
+                        result.filePath = await saveCaptureFile(result.fileName, Buffer.from(screenshot, 'base64'), false);
+                        
+                        if (crawl && item.depth < crawl.maxDepth) {
+                            links = await page.evaluate(() => Array.from(document.querySelectorAll('a[href]'), anchor => (anchor as HTMLAnchorElement).href));
+                        }
+                    } catch (error) {
+                        result.error = error instanceof Error ? error.message : String(error);
+                    } finally {
+                        await releaseCapturePage(page, shouldClosePage);
+                    }
+                    return { result, links };
+                });
+                
+                level = level.slice(batch.length);
+                for (const { result, links } of captured) {
+                    results.push(result);
+                    if (result.finalUrl && crawl) {
+                        seen.add(normalizeCrawlLink(result.finalUrl, origin) ?? result.finalUrl);
+                    }
+                    for (const link of links) {
+                        const normalized = normalizeCrawlLink(link, origin);
+                        if (normalized && !seen.has(normalized) && matchesUrlPatterns(normalized, includePatterns, excludePatterns)) {
+                            seen.add(normalized);
+                            level.push({ url: normalized, depth: result.depth + 1 });
+                        }
+                    }
+                }
             }
             
-            // Take screenshot of the element
-            const screenshot = await element.screenshot(screenshotOptions) as string;
-            
-            // Determine browser type for response
-            const browserType = useDefaultBrowser && visibleBrowser ? 'default browser' : 'Puppeteer browser';
-            const browserMode = visibleBrowser ? 'visible' : 'headless';
+            const indexName = buildCaptureFileName(crawl?.startUrl ?? sitemap ?? urls![0], 'contact-sheet', 'html');
+            const indexPath = await saveCaptureFile(indexName, buildContactSheet(source, results), false);
+            const batchFiles = results.flatMap(result => result.fileName && result.filePath ? [result.fileName] : []);
+            await pruneCaptures(new Set([indexName, ...batchFiles]));
+            const failures = results.filter(result => result.error !== undefined).length;
+            const notCaptured = level.length > 0 ? `\nNot captured: ${level.length} more pages found (maxPages reached)` : '';
+            const manifest = results.map(({ url, depth, status, title, finalUrl, filePath, error }) => ({ url, depth, status, title, finalUrl, filePath, error }));
             
             return {
+                isError: failures === results.length,
                 content: [
                     {
                         type: "text",
-                        text: `Element screenshot captured successfully!\n\nBrowser: ${browserType} (${browserMode})\nURL: ${url}\nSelector: ${selector}\nFormat: ${format}`
+                        text: `Batch screenshots captured: ${results.length - failures} of ${results.length}\n\nSource: ${source}\nFormat: ${format}\nFull Page: ${fullPage}\nUsed saved auth: ${useSavedAuth}${describeStealth(stealth, userAgent)}${describeEmulation(emulation)}${notCaptured}\nContact sheet: ${indexPath}\nContact sheet resource: ${getCaptureUri(indexName)}`
                     },
                     {
-                        type: "image",
-                        data: screenshot,
-                        mimeType: `image/${format}`
+                        type: "text",
+                        text: `Manifest (JSON):\n${JSON.stringify(manifest, null, 2)}`
                     }
-                ],
+                ]
             };
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
@@ -887,19 +5457,51 @@ server.tool(
                 content: [
                     {
                         type: "text",
-                        text: `Error capturing element screenshot: ${errorMessage}`,
+                        text: `Error capturing batch screenshots: ${errorMessage}`,
                     },
                 ],
             };
-        } finally {
-            // Close the page
-            if (page) {
-                await page.close().catch(() => {});
-            }
         }
     }
 );
 
+// Expose captures saved to disk as MCP resources
+server.resource(
+    "captures",
+    new ResourceTemplate("screenshot://captures/{fileName}", {
+        list: async () => {
+            const captures = await listCaptures();
+            return {
+                resources: captures.map(capture => ({
+                    uri: getCaptureUri(capture.fileName),
+                    name: capture.fileName,
+                    mimeType: captureMimeTypes[path.extname(capture.fileName)]
+                }))
+            };
+        }
+    }),
+    { description: "Screenshots, PDFs, HAR files and contact sheets saved to disk by the capture tools" },
+    async (uri, { fileName }) => {
+        // Only serve plain file names from the captures directory
+        const name = path.basename(decodeURIComponent(String(fileName)));
+        const mimeType = captureMimeTypes[path.extname(name)];
+        if (!mimeType) {
+            throw new Error(`Unknown capture: ${name}`);
+        }
+        
+        const data = await fsPromises.readFile(path.join(capturesDir, name));
+        return {
+            contents: [
+                {
+                    uri: uri.href,
+                    mimeType,
+                    blob: data.toString('base64')
+                }
+            ]
+        };
+    }
+);
+
 // Run the server
 async function main() {
     const transport = new StdioServerTransport();
@@ -0,0 +1,66 @@
+import { getDomain } from 'tldts';
+
+// Track whether a login has moved on from its login page, the default success rule of login-and-wait.
+// The login is done once the page has navigated away from the login page and is back on the login
+// page's site, its registrable domain (so auth.example.com and app.example.com are one site). That
+// covers a redirect to another page of the site, and SSO that goes to an identity provider on another
+// site and returns to the very page it started from.
+//
+// A page of the site still counts as the login page while it shows a password field, or while it is
+// under the login path on the login page's host, so the steps of a multi-step login (/signin/identifier,
+// /signin/challenge) do not end it. The login path is the login page's directory, or the login page
+// itself when it sits at the top of the site or of a locale (/login, /en/login).
+export function createLoginPageTracker(loginUrl: string) {
+    const login = new URL(loginUrl);
+    const site = siteOf(login);
+    const loginPath = loginPathOf(login.pathname);
+    let leftLoginPage = false;
+    let leftSite = false;
+
+    const parse = (url: string): URL | null => {
+        try {
+            const parsed = new URL(url);
+            return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed : null;
+        } catch {
+            return null;
+        }
+    };
+
+    const isUnderLoginPath = (url: URL) => url.host === login.host &&
+        (loginPath === '/' ? url.pathname === '/' : url.pathname === loginPath || url.pathname.startsWith(`${loginPath}/`));
+
+    return {
+        // Record a main frame navigation, or the page the watch starts on
+        navigated(url: string) {
+            const parsed = parse(url);
+            if (!parsed) return;
+            if (siteOf(parsed) !== site) {
+                leftLoginPage = true;
+                leftSite = true;
+            } else if (!isUnderLoginPath(parsed)) {
+                leftLoginPage = true;
+            }
+        },
+        // Whether the login is done, given the page's current URL and whether it shows a password field.
+        // Coming back from another site, such as an identity provider, ends the login even under the login path.
+        isDone(url: string, showsPasswordField: boolean): boolean {
+            const parsed = parse(url);
+            return leftLoginPage && parsed !== null && siteOf(parsed) === site &&
+                !showsPasswordField && (leftSite || !isUnderLoginPath(parsed));
+        }
+    };
+}
+
+// The registrable domain of a URL, or its host for IP addresses, localhost and the like
+function siteOf(url: URL): string {
+    return getDomain(url.hostname) ?? url.hostname;
+}
+
+function loginPathOf(pathname: string): string {
+    const segments = pathname.split('/').filter(Boolean);
+    const directory = segments.slice(0, -1);
+    if (directory.length === 0 || (directory.length === 1 && /^[a-z]{2}([-_][a-z]{2})?$/i.test(directory[0]))) {
+        return segments.length > 0 ? `/${segments.join('/')}` : '/';
+    }
+    return `/${directory.join('/')}`;
+}
@@ -0,0 +1,18 @@
+// The parts of node-webpmux used to encode animated WebP recordings; the package ships no types
+declare module 'node-webpmux' {
+    interface AnimationFrame {
+        img: Image;
+        delay?: number;
+    }
+
+    class Image {
+        static initLib(): Promise<void>;
+        static getEmptyImage(): Promise<Image>;
+        static generateFrame(options: { img: Image; delay?: number }): Promise<AnimationFrame>;
+        static save(path: null, options: { width: number; height: number; frames: AnimationFrame[]; loops?: number }): Promise<Buffer>;
+        setImageData(data: Buffer, options: { width: number; height: number; quality?: number; lossless?: number; method?: number }): Promise<number>;
+    }
+
+    const WebP: { Image: typeof Image };
+    export default WebP;
+}
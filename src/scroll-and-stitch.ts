@@ -0,0 +1,184 @@
+import { PNG } from 'pngjs';
+import type { Page } from 'puppeteer';
+
+export interface ScrollAndStitchOptions {
+    container?: string;
+    stepDelay: number;
+    maxHeight: number;
+    maxSteps: number;
+    hideSticky: boolean;
+}
+
+interface ScrollState {
+    top: number;
+    viewportHeight: number;
+    scrollHeight: number;
+    clip: { x: number; y: number; width: number; height: number };
+}
+
+// Runs in the page: optionally scroll the window or container to an offset, then report where it
+// is and the visible area to capture, in page coordinates
+export function scrollCaptureTarget(container: string | null, top: number | null): ScrollState | null {
+    const element = container ? document.querySelector(container) : null;
+    if (container && !element) {
+        return null;
+    }
+    if (top !== null) {
+        if (element) {
+            element.scrollTop = top;
+        } else {
+            window.scrollTo(window.scrollX, top);
+        }
+    }
+    
+    if (element) {
+        const rect = element.getBoundingClientRect();
+        return {
+            top: element.scrollTop,
+            viewportHeight: element.clientHeight,
+            scrollHeight: element.scrollHeight,
+            clip: {
+                x: rect.left + element.clientLeft + window.scrollX,
+                y: rect.top + element.clientTop + window.scrollY,
+                width: element.clientWidth,
+                height: element.clientHeight
+            }
+        };
+    }
+    const root = document.documentElement;
+    return {
+        top: window.scrollY,
+        viewportHeight: root.clientHeight,
+        scrollHeight: Math.max(root.scrollHeight, document.body?.scrollHeight ?? 0),
+        clip: { x: window.scrollX, y: window.scrollY, width: root.clientWidth, height: root.clientHeight }
+    };
+}
+
+// Runs in the page: wait for images in the viewport to load and decode, then for two frames
+export function waitForLazyContent(timeout: number) {
+    return new Promise<void>(resolve => {
+        const done = () => requestAnimationFrame(() => requestAnimationFrame(() => resolve()));
+        const pending = Array.from(document.images).filter(image => {
+            const rect = image.getBoundingClientRect();
+            return !image.complete && rect.bottom > 0 && rect.top < window.innerHeight;
+        });
+        if (pending.length === 0) {
+            done();
+            return;
+        }
+        setTimeout(done, timeout);
+        Promise.all(pending.map(image => image.decode().catch(() => {}))).then(done);
+    });
+}
+
+// Runs in the page: hide visible fixed and sticky elements, keeping their space in the layout
+export function hideStickyElements(container: string | null): number {
+    const scope = container ? document.querySelector(container) : document.documentElement;
+    if (!scope) {
+        return 0;
+    }
+    let hidden = 0;
+    for (const element of Array.from(scope.querySelectorAll<HTMLElement>('*'))) {
+        const { position, visibility } = getComputedStyle(element);
+        if ((position !== 'fixed' && position !== 'sticky') || visibility === 'hidden' || element.hasAttribute('data-mcp-sticky')) {
+            continue;
+        }
+        const rect = element.getBoundingClientRect();
+        if (rect.width === 0 || rect.height === 0) {
+            continue;
+        }
+        element.setAttribute('data-mcp-sticky', `${element.style.getPropertyValue('visibility')}|${element.style.getPropertyPriority('visibility')}`);
+        element.style.setProperty('visibility', 'hidden', 'important');
+        hidden++;
+    }
+    return hidden;
+}
+
+interface StitchedCapture {
+    screenshot: string;
+    width: number;
+    height: number;
+    frames: number;
+    stickyHidden: number;
+    stopReason: string;
+}
+
+// Scroll the window or container one viewport at a time and stitch the frames into one PNG.
+// The masks are applied again before every frame, as scrolling moves content out from under
+// the previous ones and lazy content appears that they never covered.
+export async function captureScrollAndStitch(page: Page, options: ScrollAndStitchOptions, applyMasks: () => Promise<void>): Promise<StitchedCapture> {
+    const container = options.container ?? null;
+    const initial = await page.evaluate(scrollCaptureTarget, container, null);
+    if (!initial) {
+        throw new Error(`Scroll container not found with selector: ${container}`);
+    }
+    
+    const frames: { image: PNG; top: number; height: number; scale: number }[] = [];
+    let stickyHidden = 0;
+    let stopReason = 'end of page';
+    let state = await page.evaluate(scrollCaptureTarget, container, 0) as ScrollState;
+    await page.evaluate(waitForLazyContent, 2000);
+    
+    try {
+        for (let step = 0; ; step++) {
+            // Mask the frame's layout, then read the clip again, as fixed elements keep their place in the viewport
+            await applyMasks();
+            state = await page.evaluate(scrollCaptureTarget, container, null) as ScrollState;
+            const data = await page.screenshot({ type: 'png', clip: state.clip, captureBeyondViewport: false });
+            const image = PNG.sync.read(Buffer.from(data));
+            frames.push({ image, top: state.top, height: state.viewportHeight, scale: image.width / state.clip.width });
+            
+            if (step === 0 && options.hideSticky) {
+                stickyHidden = await page.evaluate(hideStickyElements, container);
+            }
+            if (state.top + state.viewportHeight >= options.maxHeight) {
+                stopReason = `maxHeight (${options.maxHeight}px) reached`;
+                break;
+            }
+            if (step + 1 >= options.maxSteps) {
+                stopReason = `maxSteps (${options.maxSteps}) reached`;
+                break;
+            }
+            
+            // Scroll one viewport down and let lazy content load before the next frame
+            const next = await page.evaluate(scrollCaptureTarget, container, state.top + state.viewportHeight) as ScrollState;
+            if (options.stepDelay > 0) {
+                await new Promise(resolve => setTimeout(resolve, options.stepDelay));
+            }
+            await page.waitForNetworkIdle({ idleTime: 200, timeout: 3000 }).catch(() => {});
+            await page.evaluate(waitForLazyContent, 2000);
+            if (next.top <= state.top) {
+                break;
+            }
+        }
+    } finally {
+        await page.evaluate(scrollCaptureTarget, container, initial.top).catch(() => {});
+    }
+    
+    // Copy each frame's rows below the part already covered, up to the maximum height
+    const scale = frames[0].scale;
+    const width = frames[0].image.width;
+    const last = frames[frames.length - 1];
+    const height = Math.min(last.top + last.height, options.maxHeight);
+    const stitched = new PNG({ width, height: Math.round(height * scale) });
+    let covered = 0;
+    for (const frame of frames) {
+        const start = Math.max(frame.top, covered);
+        const end = Math.min(frame.top + frame.height, height);
+        if (end <= start) continue;
+        const sourceY = Math.round((start - frame.top) * scale);
+        const targetY = Math.round(start * scale);
+        const rows = Math.min(Math.round(end * scale) - targetY, frame.image.height - sourceY, stitched.height - targetY);
+        PNG.bitblt(frame.image, stitched, 0, sourceY, Math.min(width, frame.image.width), rows, 0, targetY);
+        covered = end;
+    }
+    
+    return {
+        screenshot: PNG.sync.write(stitched).toString('base64'),
+        width: Math.round(initial.clip.width),
+        height: Math.round(height),
+        frames: frames.length,
+        stickyHidden,
+        stopReason
+    };
+}
@@ -0,0 +1,33 @@
+import crypto from 'crypto';
+
+function decodeBase32(input: string): Buffer {
+    const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+    const cleaned = input.toUpperCase().replace(/[\s=-]/g, '');
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+    
+    for (const char of cleaned) {
+        const index = alphabet.indexOf(char);
+        if (index === -1) {
+            throw new Error('TOTP seed is not valid base32');
+        }
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 0xff);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(bytes);
+}
+
+// Generate an RFC 6238 time-based one-time password (HMAC-SHA1, 30 second steps)
+export function generateTotp(seed: string, digits: number = 6, period: number = 30, timestamp: number = Date.now()): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(Math.floor(timestamp / 1000 / period)));
+    const hmac = crypto.createHmac('sha1', decodeBase32(seed)).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** digits;
+    return code.toString().padStart(digits, '0');
+}
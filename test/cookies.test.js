@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { cookieMatchesUrl } from '../dist/cookies.js';
+
+function cookie(overrides) {
+    return { name: 'session', value: 'abc', domain: 'example.com', path: '/', expires: -1, size: 10, httpOnly: false, secure: false, session: true, ...overrides };
+}
+
+test('host-only cookies match their host only', () => {
+    assert.equal(cookieMatchesUrl(cookie({}), 'https://example.com/'), true);
+    assert.equal(cookieMatchesUrl(cookie({}), 'https://www.example.com/'), false);
+});
+
+test('domain cookies match the domain and its subdomains', () => {
+    const domainCookie = cookie({ domain: '.example.com' });
+    assert.equal(cookieMatchesUrl(domainCookie, 'https://example.com/'), true);
+    assert.equal(cookieMatchesUrl(domainCookie, 'https://a.b.example.com/'), true);
+    assert.equal(cookieMatchesUrl(domainCookie, 'https://badexample.com/'), false);
+});
+
+test('paths match on segment boundaries', () => {
+    const pathCookie = cookie({ path: '/app' });
+    assert.equal(cookieMatchesUrl(pathCookie, 'https://example.com/app'), true);
+    assert.equal(cookieMatchesUrl(pathCookie, 'https://example.com/app/settings'), true);
+    assert.equal(cookieMatchesUrl(pathCookie, 'https://example.com/application'), false);
+    assert.equal(cookieMatchesUrl(cookie({ path: '/app/' }), 'https://example.com/app/settings'), true);
+});
+
+test('secure cookies need https, except on localhost', () => {
+    assert.equal(cookieMatchesUrl(cookie({ secure: true }), 'http://example.com/'), false);
+    assert.equal(cookieMatchesUrl(cookie({ secure: true }), 'https://example.com/'), true);
+    assert.equal(cookieMatchesUrl(cookie({ secure: true, domain: 'localhost' }), 'http://localhost:3000/'), true);
+});
+
+test('invalid URLs match nothing', () => {
+    assert.equal(cookieMatchesUrl(cookie({}), 'not a url'), false);
+});
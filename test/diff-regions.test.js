@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { findDiffRegions } from '../dist/diff-regions.js';
+
+// A diff mask where only the listed pixels are opaque, as in pixelmatch's diff mask output
+function mask(width, height, pixels) {
+    const data = new Uint8Array(width * height * 4);
+    for (const [x, y] of pixels) {
+        data[(y * width + x) * 4 + 3] = 255;
+    }
+    return data;
+}
+
+test('an unchanged image has no regions', () => {
+    assert.deepEqual(findDiffRegions(mask(32, 32, []), 32, 32), []);
+});
+
+test('distant changes are separate regions, largest first', () => {
+    const pixels = [[1, 1], [2, 2], [40, 40], [41, 40], [42, 41]];
+    assert.deepEqual(findDiffRegions(mask(64, 64, pixels), 64, 64), [
+        { x: 40, y: 40, width: 3, height: 2, pixels: 3 },
+        { x: 1, y: 1, width: 2, height: 2, pixels: 2 }
+    ]);
+});
+
+test('changes in neighbouring cells, diagonals included, form one region', () => {
+    assert.deepEqual(findDiffRegions(mask(64, 64, [[15, 15], [16, 16], [33, 33]]), 64, 64), [
+        { x: 15, y: 15, width: 19, height: 19, pixels: 3 }
+    ]);
+});
+
+test('the cell size sets how far apart changes may be', () => {
+    const pixels = [[0, 0], [20, 0]];
+    assert.equal(findDiffRegions(mask(40, 8, pixels), 40, 8, 8).length, 2);
+    assert.equal(findDiffRegions(mask(40, 8, pixels), 40, 8, 16).length, 1);
+});
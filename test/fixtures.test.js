@@ -0,0 +1,22 @@
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { test } from 'node:test';
+import { resolveFixturePath } from '../dist/fixtures.js';
+
+const fixturesDir = path.resolve('/srv/fixtures');
+
+test('fixture files resolve inside the fixtures directory', () => {
+    assert.equal(resolveFixturePath(fixturesDir, 'orders.json'), path.join(fixturesDir, 'orders.json'));
+    assert.equal(resolveFixturePath(fixturesDir, 'api/../orders.json'), path.join(fixturesDir, 'orders.json'));
+    assert.equal(resolveFixturePath(fixturesDir, path.join(fixturesDir, 'api', 'orders.json')), path.join(fixturesDir, 'api', 'orders.json'));
+});
+
+test('fixture files outside the fixtures directory are rejected', () => {
+    for (const file of ['../secrets.json', 'api/../../secrets.json', '/etc/passwd', '.', '../fixtures-other/orders.json']) {
+        assert.throws(() => resolveFixturePath(fixturesDir, file), /outside the fixtures directory/, file);
+    }
+});
+
+test('a file name starting with two dots stays inside', () => {
+    assert.equal(resolveFixturePath(fixturesDir, '..orders.json'), path.join(fixturesDir, '..orders.json'));
+});
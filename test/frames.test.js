@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { quantizeImage, sampleScreencastFrames } from '../dist/frames.js';
+
+test('frames are sampled to the frame rate and timed until the next frame', () => {
+    const frames = [
+        { data: 'D', time: 10.5 },
+        { data: 'A', time: 10 },
+        { data: 'B', time: 10.05 },
+        { data: 'C', time: 10.2 }
+    ];
+    assert.deepEqual(sampleScreencastFrames(frames, 10, 11, 10), [
+        { data: 'B', time: 0, duration: 200 },
+        { data: 'C', time: 200, duration: 300 },
+        { data: 'D', time: 500, duration: 500 }
+    ]);
+});
+
+test('the last frame lasts at least one frame interval', () => {
+    assert.deepEqual(sampleScreencastFrames([{ data: 'A', time: 5 }], 4, 5, 4), [{ data: 'A', time: 1000, duration: 250 }]);
+});
+
+test('frames painted before the recording started begin at its start', () => {
+    assert.deepEqual(sampleScreencastFrames([{ data: 'A', time: 9.5 }], 10, 11, 10), [{ data: 'A', time: 0, duration: 1000 }]);
+});
+
+// An RGBA image of the given pixels, shaped like a decoded PNG
+function image(width, height, colourAt) {
+    const data = Buffer.alloc(width * height * 4);
+    for (let i = 0; i < width * height; i++) {
+        const colour = colourAt(i);
+        data[i * 4] = colour >> 16;
+        data[i * 4 + 1] = (colour >> 8) & 0xff;
+        data[i * 4 + 2] = colour & 0xff;
+        data[i * 4 + 3] = 255;
+    }
+    return { width, height, data };
+}
+
+test('images with few colours keep them exactly', () => {
+    const colours = [0xff0000, 0x00ff00, 0x0000ff];
+    const { palette, indexed } = quantizeImage(image(3, 2, i => colours[i % 3]));
+    assert.equal(palette.length, 4);
+    assert.deepEqual(indexed.map(index => palette[index]), [0xff0000, 0x00ff00, 0x0000ff, 0xff0000, 0x00ff00, 0x0000ff]);
+});
+
+test('images with many colours are reduced to a 256 colour palette', () => {
+    const { palette, indexed } = quantizeImage(image(64, 64, i => ((i * 37) % 256) << 16 | ((i * 11) % 256) << 8 | (i * 3) % 256));
+    assert.equal(palette.length, 256);
+    assert.equal(indexed.length, 64 * 64);
+    assert.ok(indexed.every(index => index >= 0 && index < 256));
+});
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { buildHar, getRequestTime } from '../dist/har.js';
+
+// A POST that spent 10 ms queued, then went through DNS, a TLS connection, the server and the download
+const post = {
+    url: 'https://api.example.com/orders?page=2&sort=date',
+    method: 'POST',
+    resourceType: 'fetch',
+    requestHeaders: { 'Content-Type': 'application/json' },
+    postData: '{"id":1}',
+    startedDateTime: new Date('2024-01-01T00:00:00.000Z'),
+    startTimestamp: 100,
+    endTimestamp: 100.5,
+    status: 201,
+    statusText: 'Created',
+    httpVersion: 'h2',
+    responseHeaders: { 'content-type': 'application/json' },
+    mimeType: 'application/json',
+    timing: {
+        requestTime: 100.01,
+        dnsStart: 0, dnsEnd: 10,
+        connectStart: 10, connectEnd: 50,
+        sslStart: 30, sslEnd: 50,
+        sendStart: 50, sendEnd: 51,
+        receiveHeadersEnd: 300
+    },
+    transferBytes: 512,
+    contentBytes: 2048,
+    fromCache: false
+};
+
+// A request that failed before any response
+const failed = {
+    url: 'https://cdn.example.com/app.js',
+    method: 'GET',
+    resourceType: 'script',
+    requestHeaders: {},
+    startedDateTime: new Date('2024-01-01T00:00:00.200Z'),
+    startTimestamp: 100.2,
+    endTimestamp: 100.3,
+    error: 'net::ERR_CONNECTION_REFUSED',
+    transferBytes: 0,
+    contentBytes: 0,
+    fromCache: false
+};
+
+test('timings split a request into its phases', () => {
+    const har = buildHar([post], 'Orders');
+    const [entry] = har.log.entries;
+    assert.deepEqual(entry.timings, { blocked: 10, dns: 10, connect: 40, ssl: 20, send: 1, wait: 249, receive: 190 });
+    assert.equal(entry.time, 500);
+    assert.equal(Math.round(getRequestTime(post)), 500);
+});
+
+test('requests and responses carry their headers, query string and body', () => {
+    const har = buildHar([post], 'Orders');
+    const { request, response } = har.log.entries[0];
+    assert.equal(har.log.version, '1.2');
+    assert.equal(har.log.pages[0].title, 'Orders');
+    assert.equal(har.log.pages[0].startedDateTime, '2024-01-01T00:00:00.000Z');
+    assert.deepEqual(request.queryString, [{ name: 'page', value: '2' }, { name: 'sort', value: 'date' }]);
+    assert.deepEqual(request.headers, [{ name: 'Content-Type', value: 'application/json' }]);
+    assert.deepEqual(request.postData, { mimeType: 'application/json', text: '{"id":1}' });
+    assert.equal(request.bodySize, 8);
+    assert.equal(response.status, 201);
+    assert.deepEqual(response.content, { size: 2048, mimeType: 'application/json' });
+    assert.equal(response._transferSize, 512);
+});
+
+test('failed requests without timing count their whole time as waiting', () => {
+    const [entry] = buildHar([failed], 'App').log.entries;
+    assert.deepEqual(entry.timings, { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: 100, receive: 0 });
+    assert.equal(entry.time, 100);
+    assert.equal(entry.response.status, 0);
+    assert.equal(entry.response._error, 'net::ERR_CONNECTION_REFUSED');
+    assert.equal(entry.request.postData, undefined);
+});
@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createLoginPageTracker } from '../dist/login-page.js';
+
+// Replay the main frame URLs a login passes through, starting from the page the watch starts on
+function replay(loginUrl, urls, showsPasswordField = false) {
+    const tracker = createLoginPageTracker(loginUrl);
+    for (const url of urls) {
+        tracker.navigated(url);
+    }
+    return tracker.isDone(urls[urls.length - 1], showsPasswordField);
+}
+
+test('a redirect to another page of the site completes the login', () => {
+    assert.equal(replay('https://example.com/login', ['https://example.com/login', 'https://example.com/dashboard']), true);
+});
+
+test('SSO that returns to the page it started from completes the login', () => {
+    assert.equal(replay('https://example.com/app', [
+        'https://example.com/app',
+        'https://idp.example.net/authorize?client_id=app',
+        'https://example.com/app'
+    ]), true);
+});
+
+test('a watch that starts on the identity provider completes on the way back', () => {
+    assert.equal(replay('https://example.com/app', [
+        'https://idp.example.net/authorize?client_id=app',
+        'https://example.com/app?code=abc'
+    ]), true);
+});
+
+test('the identity provider pages do not complete the login', () => {
+    assert.equal(replay('https://example.com/app', [
+        'https://example.com/app',
+        'https://idp.example.net/authorize',
+        'https://idp.example.net/mfa'
+    ]), false);
+});
+
+test('reloading the login page, with or without a query, does not complete the login', () => {
+    assert.equal(replay('https://example.com/login', [
+        'https://example.com/login',
+        'https://example.com/login?error=1',
+        'https://example.com/login'
+    ]), false);
+});
+
+test('blank and internal pages are ignored', () => {
+    assert.equal(replay('https://example.com/login', ['about:blank', 'chrome-error://chromewebdata/', 'https://example.com/login']), false);
+});
+
+test('landing on another subdomain of the site completes the login', () => {
+    assert.equal(replay('https://auth.example.com/login', ['https://auth.example.com/login', 'https://app.example.com/home']), true);
+    assert.equal(replay('https://login.example.co.uk/', ['https://login.example.co.uk/', 'https://www.example.co.uk/']), true);
+});
+
+test('another site under the same public suffix does not complete the login', () => {
+    assert.equal(replay('https://example.co.uk/login', ['https://example.co.uk/login', 'https://other.co.uk/home']), false);
+});
+
+test('the steps of a multi-step login do not complete it', () => {
+    const steps = ['https://accounts.example.com/signin/identifier', 'https://accounts.example.com/signin/challenge'];
+    assert.equal(replay(steps[0], steps), false);
+    assert.equal(replay(steps[0], [...steps, 'https://accounts.example.com/myaccount']), true);
+});
+
+test('a page that still shows a password field does not complete the login', () => {
+    assert.equal(replay('https://example.com/login', ['https://example.com/login', 'https://example.com/password'], true), false);
+    assert.equal(replay('https://example.com/app', ['https://example.com/app', 'https://idp.example.net/authorize', 'https://example.com/app'], true), false);
+});
+
+test('a login page in a locale directory does not claim the whole locale', () => {
+    assert.equal(replay('https://example.com/en/login', ['https://example.com/en/login', 'https://example.com/en/login/otp']), false);
+    assert.equal(replay('https://example.com/en/login', ['https://example.com/en/login', 'https://example.com/en/dashboard']), true);
+});
+
+test('hosts without a registrable domain are compared as a whole', () => {
+    assert.equal(replay('http://localhost:3000/login', ['http://localhost:3000/login', 'http://localhost:3000/home']), true);
+    assert.equal(replay('http://127.0.0.1/login', ['http://127.0.0.1/login', 'http://127.0.0.2/home']), false);
+});
@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { PNG } from 'pngjs';
+import { captureScrollAndStitch, hideStickyElements, scrollCaptureTarget, waitForLazyContent } from '../dist/scroll-and-stitch.js';
+
+const options = { stepDelay: 0, maxHeight: 20000, maxSteps: 50, hideSticky: true };
+const secretColour = [255, 0, 0];
+
+// A 100x400 page in a 100x100 viewport with two secrets: one that a banner loading above it pushes
+// down once the page scrolls, and one that only loads once the page scrolls near it. The page
+// functions are answered from this model instead of a browser.
+function createFakePage() {
+    let scrollTop = 0;
+    let bannerLoaded = false;
+    let lazyLoaded = false;
+    let overlays = [];
+    
+    const secrets = () => [
+        { y: bannerLoaded ? 200 : 150, height: 20 },
+        ...(lazyLoaded ? [{ y: 320, height: 20 }] : [])
+    ];
+    const state = () => ({ top: scrollTop, viewportHeight: 100, scrollHeight: 400, clip: { x: 0, y: scrollTop, width: 100, height: 100 } });
+    
+    return {
+        // What redactPage does: replace the overlays with boxes over the secrets where they are now
+        applyMasks: async () => {
+            overlays = secrets().map(secret => ({ ...secret }));
+        },
+        evaluate: async (fn, ...args) => {
+            if (fn === scrollCaptureTarget) {
+                const [, top] = args;
+                if (top !== null) {
+                    scrollTop = Math.max(0, Math.min(top, 300));
+                    bannerLoaded ||= scrollTop >= 100;
+                    lazyLoaded ||= scrollTop >= 200;
+                }
+                return state();
+            }
+            if (fn === waitForLazyContent) return undefined;
+            if (fn === hideStickyElements) return 0;
+            throw new Error('Unexpected page function');
+        },
+        waitForNetworkIdle: async () => {},
+        screenshot: async ({ clip }) => {
+            const image = new PNG({ width: clip.width, height: clip.height });
+            image.data.fill(255);
+            const paint = (boxes, colour) => {
+                for (const box of boxes) {
+                    for (let y = Math.max(box.y, clip.y); y < Math.min(box.y + box.height, clip.y + clip.height); y++) {
+                        for (let x = 0; x < clip.width; x++) {
+                            const offset = ((y - clip.y) * clip.width + x) * 4;
+                            image.data.set(colour, offset);
+                        }
+                    }
+                }
+            };
+            paint(secrets(), secretColour);
+            paint(overlays, [0, 0, 0]);
+            return PNG.sync.write(image);
+        }
+    };
+}
+
+function countSecretPixels(base64) {
+    const { data } = PNG.sync.read(Buffer.from(base64, 'base64'));
+    let count = 0;
+    for (let i = 0; i < data.length; i += 4) {
+        if (data[i] === secretColour[0] && data[i + 1] === secretColour[1] && data[i + 2] === secretColour[2]) count++;
+    }
+    return count;
+}
+
+test('masks cover content that moved or loaded while scrolling', async () => {
+    const page = createFakePage();
+    const stitched = await captureScrollAndStitch(page, options, page.applyMasks);
+    assert.equal(stitched.frames, 4);
+    assert.equal(stitched.height, 400);
+    assert.equal(countSecretPixels(stitched.screenshot), 0);
+});
+
+test('masks placed once before stitching leave the secrets visible', async () => {
+    const page = createFakePage();
+    await page.applyMasks();
+    const stitched = await captureScrollAndStitch(page, options, async () => {});
+    assert.equal(countSecretPixels(stitched.screenshot), 2 * 20 * 100);
+});
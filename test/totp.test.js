@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { generateTotp } from '../dist/totp.js';
+
+// The SHA1 seed of RFC 6238 appendix B, the ASCII string "12345678901234567890" in base32
+const rfcSeed = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+test('generates the RFC 6238 test vectors', () => {
+    const vectors = [
+        [59, '94287082'],
+        [1111111109, '07081804'],
+        [1111111111, '14050471'],
+        [1234567890, '89005924'],
+        [2000000000, '69279037'],
+        [20000000000, '65353130']
+    ];
+    for (const [seconds, code] of vectors) {
+        assert.equal(generateTotp(rfcSeed, 8, 30, seconds * 1000), code, `T = ${seconds}`);
+    }
+});
+
+test('six digit codes are the last digits of the eight digit ones', () => {
+    assert.equal(generateTotp(rfcSeed, 6, 30, 59 * 1000), '287082');
+    assert.equal(generateTotp(rfcSeed, 6, 30, 1111111109 * 1000), '081804');
+});
+
+test('seeds are read case-insensitively, ignoring spaces, dashes and padding', () => {
+    assert.equal(generateTotp('gezd gnbv-gy3t qojq gezd gnbv gy3t qojq====', 8, 30, 59 * 1000), '94287082');
+});
+
+test('a seed that is not base32 is rejected', () => {
+    assert.throws(() => generateTotp('not base32!', 6, 30, 0), /not valid base32/);
+});